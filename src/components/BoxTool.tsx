@@ -0,0 +1,221 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useStore } from '../hooks/useStore';
+import { axisOf } from '../utils/voxelIndex';
+import { pickVoxelFace, eventToNdc } from '../utils/picking';
+import { CELL_SIZE, cellToWorld, worldToCell } from '../utils/grid';
+import { DEFAULT_MATERIAL } from '../utils/materials';
+import { isTypingTarget } from '../utils/keymap';
+
+// 长方体每个方向的最大格数
+const MAX_BOX_SIZE = 256;
+
+// 挖除预览颜色
+const CARVE_COLOR = '#ff0000';
+
+// 长方体工具的状态：hover 为悬停起点，rect 为拖出底面矩形，height 为调整高度
+interface BoxState {
+  phase: 'hover' | 'rect' | 'height';
+  // 起点所在的体素和面法线
+  cell: THREE.Vector3;
+  normal: THREE.Vector3;
+  // 底面矩形的对角格点（只使用平面内的两个坐标）
+  corner: THREE.Vector3;
+  height: number;
+  carve: boolean;
+  // 调整高度时的鼠标起点和沿高度方向移动一格对应的屏幕位移（像素）
+  heightStart?: THREE.Vector2;
+  screenStep?: THREE.Vector2;
+}
+
+// 根据工具状态计算长方体的两个对角格点：填充时从面外侧的空格点开始向外，挖除时从被点击的体素开始向内
+const getBoxCorners = (state: BoxState) => {
+  const axis = axisOf(state.normal);
+  const direction = state.carve ? state.normal.clone().negate() : state.normal.clone();
+  const from = state.carve ? state.cell.clone() : state.cell.clone().add(state.normal);
+  const corner = state.corner.clone().setComponent(axis, from.getComponent(axis));
+  const to = corner.addScaledVector(direction, state.height - 1);
+  return { from, to, direction };
+};
+
+// 限制对角格点与起点的距离，避免一次生成过多体素
+const clampToBoxSize = (cell: THREE.Vector3, anchor: THREE.Vector3) => {
+  const limit = MAX_BOX_SIZE - 1;
+  return cell.set(
+    THREE.MathUtils.clamp(cell.x, anchor.x - limit, anchor.x + limit),
+    THREE.MathUtils.clamp(cell.y, anchor.y - limit, anchor.y + limit),
+    THREE.MathUtils.clamp(cell.z, anchor.z - limit, anchor.z + limit)
+  );
+};
+
+// 长方体工具 - 在任意面上拖出矩形，再拖动设置高度，点击后一次性填充（按住 Alt 挖除）
+export const BoxTool = () => {
+  const { toolMode, activeColor, fillBox, carveBox } = useStore();
+  const { camera, raycaster, scene, gl } = useThree();
+
+  const [box, setBox] = useState<BoxState | null>(null);
+  const boxRef = useRef(box);
+  boxRef.current = box;
+
+  useEffect(() => {
+    // 更新状态并同步到 ref，供同一事件中的后续处理读取
+    const updateBox = (next: BoxState | null) => {
+      boxRef.current = next;
+      setBox(next);
+    };
+
+    if (toolMode !== 'box') {
+      updateBox(null);
+      return;
+    }
+
+    const canvas = gl.domElement;
+    const ndc = new THREE.Vector2();
+    const plane = new THREE.Plane();
+    const point = new THREE.Vector3();
+
+    // 提交长方体并回到悬停状态
+    const commit = (state: BoxState) => {
+      const { from, to } = getBoxCorners(state);
+      if (state.carve) {
+        carveBox(from, to);
+      } else {
+        fillBox(from, to, useStore.getState().activeColor);
+      }
+      updateBox(null);
+    };
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const state = boxRef.current;
+      raycaster.setFromCamera(eventToNdc(e, canvas, ndc), camera);
+
+      // 悬停：使用与添加工具相同的面检测确定起点
+      if (!state || state.phase === 'hover') {
+        if (e.target !== canvas) return;
+        const hit = pickVoxelFace(raycaster, scene, useStore.getState().voxelIndex);
+        if (!hit) {
+          if (state) updateBox(null);
+          return;
+        }
+        if (state && state.cell.equals(hit.cell) && state.normal.equals(hit.normal) && state.carve === e.altKey) return;
+        updateBox({
+          phase: 'hover',
+          cell: hit.cell,
+          normal: hit.normal,
+          corner: hit.cell.clone(),
+          height: 1,
+          carve: e.altKey
+        });
+        return;
+      }
+
+      // 拖出矩形：射线与起点所在平面求交，得到对角格点
+      if (state.phase === 'rect') {
+        const { from } = getBoxCorners(state);
+        plane.setFromNormalAndCoplanarPoint(state.normal, cellToWorld(from));
+        if (!raycaster.ray.intersectPlane(plane, point)) return;
+        const corner = clampToBoxSize(worldToCell(point), from);
+        if (corner.equals(state.corner) && state.carve === e.altKey) return;
+        updateBox({ ...state, corner, carve: e.altKey });
+        return;
+      }
+
+      // 调整高度：鼠标位移投影到高度方向的屏幕方向上，按整格吸附
+      if (state.heightStart && state.screenStep) {
+        const delta = new THREE.Vector2(e.clientX, e.clientY).sub(state.heightStart);
+        const steps = Math.round(delta.dot(state.screenStep) / state.screenStep.lengthSq());
+        const height = THREE.MathUtils.clamp(1 + steps, 1, MAX_BOX_SIZE);
+        if (height === state.height && state.carve === e.altKey) return;
+        updateBox({ ...state, height, carve: e.altKey });
+      }
+    };
+
+    const handleMouseDown = (e: MouseEvent) => {
+      const state = boxRef.current;
+      if (e.button !== 0 || e.target !== canvas || !state) return;
+
+      if (state.phase === 'hover') {
+        updateBox({ ...state, phase: 'rect', carve: e.altKey });
+      } else if (state.phase === 'height') {
+        commit({ ...state, carve: e.altKey });
+      }
+    };
+
+    const handleMouseUp = (e: MouseEvent) => {
+      const state = boxRef.current;
+      if (e.button !== 0 || !state || state.phase !== 'rect') return;
+
+      // 矩形确定后进入高度调整，计算高度方向在屏幕上的投影
+      const { to, direction } = getBoxCorners(state);
+      const rect = canvas.getBoundingClientRect();
+      const project = (cell: THREE.Vector3) => {
+        const p = cellToWorld(cell).project(camera);
+        return new THREE.Vector2((p.x + 1) / 2 * rect.width, (1 - p.y) / 2 * rect.height);
+      };
+      const screenStep = project(to.clone().add(direction)).sub(project(to));
+
+      // 高度方向正对相机时无法拖动高度，直接提交
+      if (screenStep.lengthSq() < 1) {
+        commit(state);
+        return;
+      }
+      updateBox({ ...state, phase: 'height', heightStart: new THREE.Vector2(e.clientX, e.clientY), screenStep });
+    };
+
+    // Esc 取消，Enter 确认；Alt 切换填充和挖除
+    const handleKey = (e: KeyboardEvent) => {
+      const state = boxRef.current;
+      if (!state || isTypingTarget(e.target)) return;
+      if (e.type === 'keydown' && e.key === 'Escape') {
+        updateBox(null);
+      } else if (e.type === 'keydown' && e.key === 'Enter' && state.phase === 'height') {
+        commit(state);
+      } else if (e.key === 'Alt') {
+        e.preventDefault();
+        updateBox({ ...state, carve: e.type === 'keydown' });
+      }
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mousedown', handleMouseDown);
+    window.addEventListener('mouseup', handleMouseUp);
+    window.addEventListener('keydown', handleKey);
+    window.addEventListener('keyup', handleKey);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mousedown', handleMouseDown);
+      window.removeEventListener('mouseup', handleMouseUp);
+      window.removeEventListener('keydown', handleKey);
+      window.removeEventListener('keyup', handleKey);
+    };
+  }, [toolMode, gl, camera, raycaster, scene, fillBox, carveBox]);
+
+  // 虚影预览的位置和尺寸
+  const ghost = useMemo(() => {
+    if (!box) return null;
+    const { from, to } = getBoxCorners(box);
+    const min = from.clone().min(to);
+    const max = from.clone().max(to);
+    return {
+      center: cellToWorld(min.clone().add(max).multiplyScalar(0.5)),
+      size: max.clone().sub(min).addScalar(1).multiplyScalar(CELL_SIZE)
+    };
+  }, [box]);
+
+  if (!box || !ghost) return null;
+
+  return (
+    <mesh position={ghost.center} raycast={() => null} renderOrder={1}>
+      <boxGeometry args={[ghost.size.x + 0.002, ghost.size.y + 0.002, ghost.size.z + 0.002]} />
+      <meshStandardMaterial
+        color={box.carve ? CARVE_COLOR : activeColor}
+        transparent
+        opacity={box.carve ? 0.35 : 0.5}
+        depthWrite={false}
+        roughness={DEFAULT_MATERIAL.roughness}
+        metalness={DEFAULT_MATERIAL.metalness}
+      />
+    </mesh>
+  );
+};
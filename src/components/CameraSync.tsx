@@ -0,0 +1,48 @@
+import { ComponentRef, useEffect } from 'react';
+import { useThree } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import { useStore } from '../hooks/useStore';
+import { DEFAULT_CAMERA } from '../utils/projectFile';
+
+type OrbitControlsImpl = ComponentRef<typeof OrbitControls>;
+
+// 相机同步 - 视角变化后把相机状态写入 store，载入项目时把保存的相机应用到场景
+export const CameraSync = () => {
+  const camera = useThree(state => state.camera);
+  const controls = useThree(state => state.controls) as OrbitControlsImpl | null;
+  const { cameraVersion, setCamera } = useStore();
+  
+  // 视角变化停止一段时间后再写入，避免拖动时频繁更新全局状态
+  useEffect(() => {
+    if (!controls) return;
+    
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const handleChange = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        setCamera({
+          position: camera.position.toArray() as [number, number, number],
+          target: controls.target.toArray() as [number, number, number]
+        });
+      }, 200);
+    };
+    
+    controls.addEventListener('change', handleChange);
+    return () => {
+      clearTimeout(timer);
+      controls.removeEventListener('change', handleChange);
+    };
+  }, [controls, camera, setCamera]);
+  
+  // 载入或新建项目后应用项目中的相机（没有保存相机时恢复默认视角）
+  useEffect(() => {
+    if (!controls || cameraVersion === 0) return;
+    
+    const state = useStore.getState().camera ?? DEFAULT_CAMERA;
+    camera.position.set(...state.position);
+    controls.target.set(...state.target);
+    controls.update();
+  }, [cameraVersion, controls, camera]);
+  
+  return null;
+};
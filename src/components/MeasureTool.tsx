@@ -0,0 +1,121 @@
+import { useEffect, useRef, useState } from 'react';
+import { useThree } from '@react-three/fiber';
+import { Html, Line } from '@react-three/drei';
+import * as THREE from 'three';
+import { useStore } from '../hooks/useStore';
+import { pickVoxelFace, eventToNdc } from '../utils/picking';
+import { CELL_SIZE } from '../utils/grid';
+import { isTypingTarget } from '../utils/keymap';
+
+// 测量线和端点的颜色
+const MEASURE_COLOR = '#ff00ff';
+
+// 测量状态 - 点均为格点坐标下的面中心（体素中心沿面法线移动半格）
+interface MeasureState {
+  start: THREE.Vector3 | null;
+  end: THREE.Vector3 | null;
+  hover: THREE.Vector3 | null;
+}
+
+// 两点之间的距离说明：格数、毫米以及各轴分量
+const formatDistance = (from: THREE.Vector3, to: THREE.Vector3, voxelSize: number): string => {
+  const delta = to.clone().sub(from);
+  const length = delta.length();
+  const round = (n: number) => +n.toFixed(2);
+  return `${round(length)} 格 / ${round(length * voxelSize)}mm` +
+    ` (Δx ${round(Math.abs(delta.x))}, Δy ${round(Math.abs(delta.y))}, Δz ${round(Math.abs(delta.z))})`;
+};
+
+// 测量工具 - 依次点击两个体素面，显示两个面中心之间的距离；再次点击开始新的测量，Esc 清除
+export const MeasureTool = () => {
+  const { toolMode, voxelSize } = useStore();
+  const { camera, raycaster, scene, gl } = useThree();
+
+  const [measure, setMeasure] = useState<MeasureState>({ start: null, end: null, hover: null });
+  const measureRef = useRef(measure);
+  measureRef.current = measure;
+
+  useEffect(() => {
+    const update = (next: MeasureState) => {
+      measureRef.current = next;
+      setMeasure(next);
+    };
+
+    if (toolMode !== 'measure') {
+      update({ start: null, end: null, hover: null });
+      return;
+    }
+
+    const canvas = gl.domElement;
+    const ndc = new THREE.Vector2();
+
+    // 鼠标下体素面的中心
+    const pickFacePoint = (e: MouseEvent): THREE.Vector3 | null => {
+      raycaster.setFromCamera(eventToNdc(e, canvas, ndc), camera);
+      const hit = pickVoxelFace(raycaster, scene, useStore.getState().voxelIndex);
+      return hit ? hit.cell.clone().addScaledVector(hit.normal, 0.5) : null;
+    };
+
+    const handleMouseMove = (e: MouseEvent) => {
+      if (e.target !== canvas) return;
+      const hover = pickFacePoint(e);
+      const state = measureRef.current;
+      if (hover === state.hover || (hover && state.hover && hover.equals(state.hover))) return;
+      update({ ...state, hover });
+    };
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (e.button !== 0 || e.target !== canvas) return;
+      const point = pickFacePoint(e);
+      if (!point) return;
+      const state = measureRef.current;
+      if (!state.start || state.end) {
+        update({ start: point, end: null, hover: point });
+      } else {
+        console.log(`测量: ${formatDistance(state.start, point, useStore.getState().voxelSize)}`);
+        update({ ...state, end: point });
+      }
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !isTypingTarget(e.target)) {
+        update({ start: null, end: null, hover: null });
+      }
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mousedown', handleMouseDown);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mousedown', handleMouseDown);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [toolMode, gl, camera, raycaster, scene]);
+
+  if (toolMode !== 'measure') return null;
+
+  // 未完成时测量到当前悬停的面
+  const { start, hover } = measure;
+  const end = measure.end ?? hover;
+  const points = [start, end].filter((p): p is THREE.Vector3 => !!p).map(p => p.clone().multiplyScalar(CELL_SIZE));
+
+  return (
+    <>
+      {points.map((point, i) => (
+        <mesh key={i} position={point} raycast={() => null} renderOrder={2}>
+          <sphereGeometry args={[CELL_SIZE * 0.12, 12, 12]} />
+          <meshBasicMaterial color={MEASURE_COLOR} depthTest={false} />
+        </mesh>
+      ))}
+      {start && end && (
+        <>
+          <Line points={points} color={MEASURE_COLOR} lineWidth={2} depthTest={false} raycast={() => null} />
+          <Html position={points[0].clone().add(points[1]).multiplyScalar(0.5)} center style={{ pointerEvents: 'none' }}>
+            <div className="dimension-label">{formatDistance(start, end, voxelSize)}</div>
+          </Html>
+        </>
+      )}
+    </>
+  );
+};
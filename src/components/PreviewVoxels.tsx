@@ -0,0 +1,59 @@
+import { useLayoutEffect, useRef } from 'react';
+import * as THREE from 'three';
+import { CELL_RENDER_SIZE, cellToWorld } from '../utils/grid';
+
+interface PreviewVoxelsProps {
+  // 整数格点坐标
+  cells: THREE.Vector3[];
+  color: string;
+  // 每个体素各自的颜色，提供时覆盖 color
+  colors?: string[];
+  opacity?: number;
+  wireframe?: boolean;
+  scale?: number;
+}
+
+// 批量预览体素 - 使用实例化网格一次绘制所有预览方块，不参与射线拾取
+export const PreviewVoxels = ({ cells, color, colors, opacity = 0.5, wireframe = false, scale = 1 }: PreviewVoxelsProps) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  
+  // 更新每个实例的变换矩阵
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    
+    const matrix = new THREE.Matrix4();
+    const position = new THREE.Vector3();
+    const scaleVector = new THREE.Vector3(scale, scale, scale);
+    const quaternion = new THREE.Quaternion();
+    cells.forEach((cell, i) => {
+      matrix.compose(cellToWorld(cell, position), quaternion, scaleVector);
+      mesh.setMatrixAt(i, matrix);
+    });
+    mesh.instanceMatrix.needsUpdate = true;
+    
+    if (colors) {
+      const instanceColor = new THREE.Color();
+      colors.forEach((c, i) => mesh.setColorAt(i, instanceColor.set(c)));
+      if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    }
+    mesh.computeBoundingSphere();
+  }, [cells, colors, scale]);
+  
+  if (cells.length === 0) return null;
+  
+  return (
+    <instancedMesh
+      ref={meshRef}
+      args={[undefined, undefined, cells.length]}
+      raycast={() => null}
+    >
+      <boxGeometry args={[CELL_RENDER_SIZE, CELL_RENDER_SIZE, CELL_RENDER_SIZE]} />
+      {wireframe ? (
+        <meshBasicMaterial color={colors ? '#ffffff' : color} wireframe transparent opacity={opacity} />
+      ) : (
+        <meshStandardMaterial color={colors ? '#ffffff' : color} transparent opacity={opacity} depthWrite={false} />
+      )}
+    </instancedMesh>
+  );
+};
@@ -2,25 +2,20 @@ import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Stats } from '@react-three/drei';
 import { VoxelWorld } from './VoxelWorld';
 import { ToolPanel } from './UI/ToolPanel';
-import { Suspense, useEffect, useState, useRef } from 'react';
+import { LayersPanel } from './UI/LayersPanel';
+import { ShortcutsOverlay } from './UI/ShortcutsOverlay';
+import { CameraSync } from './CameraSync';
+import { SymmetryPlanes } from './SymmetryPlanes';
+import { SectionView } from './SectionView';
+import { useStore } from '../hooks/useStore';
+import { Suspense, useEffect, useRef } from 'react';
 import * as THREE from 'three';
 
 export const Scene = () => {
-  const [showStats, setShowStats] = useState(false);
+  // 性能监视器由快捷键（默认'`'键）切换
+  const { showStats } = useStore();
   const orbitControlsRef = useRef(null);
 
-  // 按下'~'键显示性能监视器
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === '`') {
-        setShowStats(prev => !prev);
-      }
-    };
-    
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, []);
-
   // 添加Shift+右键平移支持
   useEffect(() => {
     const handleMouseDown = (e: MouseEvent) => {
@@ -51,6 +46,8 @@ export const Scene = () => {
   return (
     <div style={{ width: '100vw', height: '100vh', position: 'relative' }}>
       <ToolPanel />
+      <LayersPanel />
+      <ShortcutsOverlay />
       
       <Canvas
         gl={{ 
@@ -125,8 +122,17 @@ export const Scene = () => {
             }}
           />
           
+          {/* 相机状态与项目文件同步 */}
+          <CameraSync />
+          
           {/* 地面网格 - 提供参考点 */}
           <gridHelper args={[30, 30, '#DCDCDC', '#DCDCDC']} position={[0, -0.01, 0]} />
+          
+          {/* 对称编辑的对称面 */}
+          <SymmetryPlanes />
+          
+          {/* 剖切面和剖面填充线 */}
+          <SectionView />
         </Suspense>
         
         {/* 性能监视器 */}
@@ -0,0 +1,114 @@
+import { useLayoutEffect, useMemo, useRef } from 'react';
+import * as THREE from 'three';
+import { useStore } from '../hooks/useStore';
+import { cellOf } from '../utils/voxelIndex';
+import { getVisibleLayerIds } from '../utils/layers';
+import { SECTION_AXIS_INDEX, getSectionNormal } from '../utils/section';
+import { CELL_SIZE, CELL_HALF, CELL_RENDER_SIZE, cellToWorld } from '../utils/grid';
+
+// 剖切面的显示尺寸（世界单位）
+const PLANE_SIZE = 9;
+
+// 剖切面和剖面填充线的颜色
+const SECTION_COLOR = '#ff8800';
+
+// 剖面填充线纹理 - 透明背景上的白色斜线（由材质颜色着色），剖开的面仍能看到体素本身的颜色
+const createHatchTexture = (): THREE.Texture => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 16;
+  canvas.height = 16;
+  const context = canvas.getContext('2d');
+  if (context) {
+    context.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+    context.lineWidth = 2;
+    context.beginPath();
+    context.moveTo(0, 16);
+    context.lineTo(16, 0);
+    context.moveTo(-4, 4);
+    context.lineTo(4, -4);
+    context.moveTo(12, 20);
+    context.lineTo(20, 12);
+    context.stroke();
+  }
+  return new THREE.CanvasTexture(canvas);
+};
+
+// 剖切视图 - 显示剖切面位置，并在被剖开的体素面上绘制填充线，不参与射线拾取
+export const SectionView = () => {
+  const { section, voxelIndex, layers } = useStore();
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const hatch = useMemo(createHatchTexture, []);
+
+  // 纹理只创建一次，卸载时释放
+  useLayoutEffect(() => () => hatch.dispose(), [hatch]);
+
+  const normal = useMemo(() => getSectionNormal(section), [section]);
+
+  // 被剖开的面：剖切面内侧最后一层中，外侧相邻格点有可见图层体素的格点
+  const cutCells = useMemo(() => {
+    if (!section.enabled) return [];
+    const visibleLayerIds = getVisibleLayerIds(layers);
+    const isVisible = (layer?: string) => visibleLayerIds.has(layer ?? '');
+    return voxelIndex.plane(SECTION_AXIS_INDEX[section.axis], section.position)
+      .filter(voxel => {
+        if (!isVisible(voxel.layer)) return false;
+        const outside = voxelIndex.neighbor(cellOf(voxel.position), normal);
+        return !!outside && isVisible(outside.layer);
+      })
+      .map(voxel => voxel.position);
+  }, [section, voxelIndex, layers, normal]);
+
+  // 每个剖面放在体素外侧半个格点处，略微外移避免与体素表面重叠闪烁
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+
+    const quaternion = new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 0, 1), normal);
+    const matrix = new THREE.Matrix4();
+    const facePosition = new THREE.Vector3();
+    const unitScale = new THREE.Vector3(1, 1, 1);
+    cutCells.forEach((cell, i) => {
+      cellToWorld(cell, facePosition).addScaledVector(normal, CELL_HALF + 0.002);
+      matrix.compose(facePosition, quaternion, unitScale);
+      mesh.setMatrixAt(i, matrix);
+    });
+    mesh.instanceMatrix.needsUpdate = true;
+    mesh.computeBoundingSphere();
+  }, [cutCells, normal]);
+
+  if (!section.enabled) return null;
+
+  // 剖切面位于保留的最后一层与被隐藏的第一层之间
+  const planePosition = normal.clone().multiplyScalar(CELL_HALF);
+  planePosition[section.axis] += section.position * CELL_SIZE;
+  const planeRotation = new THREE.Euler().setFromQuaternion(
+    new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 0, 1), normal)
+  );
+
+  return (
+    <>
+      <mesh position={planePosition} rotation={planeRotation} raycast={() => null}>
+        <planeGeometry args={[PLANE_SIZE, PLANE_SIZE]} />
+        <meshBasicMaterial
+          color={SECTION_COLOR}
+          transparent
+          opacity={0.1}
+          side={THREE.DoubleSide}
+          depthWrite={false}
+        />
+      </mesh>
+
+      {cutCells.length > 0 && (
+        <instancedMesh
+          key={cutCells.length}
+          ref={meshRef}
+          args={[undefined, undefined, cutCells.length]}
+          raycast={() => null}
+        >
+          <planeGeometry args={[CELL_RENDER_SIZE, CELL_RENDER_SIZE]} />
+          <meshBasicMaterial color={SECTION_COLOR} map={hatch} transparent />
+        </instancedMesh>
+      )}
+    </>
+  );
+};
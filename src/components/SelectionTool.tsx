@@ -0,0 +1,351 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ThreeEvent, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useStore, Voxel } from '../hooks/useStore';
+import { PreviewVoxels } from './PreviewVoxels';
+import { cellOf, parseCellKey, positionKey } from '../utils/voxelIndex';
+import { getCellBounds, getPasteOrigin } from '../utils/selection';
+import { bresenhamLine } from '../utils/shapes';
+import { CELL_SIZE, CELL_HALF, cellToWorld } from '../utils/grid';
+
+// 鼠标移动小于该距离（像素）时视为点击而不是框选
+const CLICK_THRESHOLD = 4;
+
+// 选区轮廓颜色
+const SELECTION_COLOR = '#00e5ff';
+
+// 粘贴预览中与已有体素冲突的格点颜色
+const COLLISION_COLOR = '#ff0000';
+
+// 移动控制柄的三个坐标轴
+const GIZMO_AXES = [
+  { axis: new THREE.Vector3(1, 0, 0), color: '#ff4444' },
+  { axis: new THREE.Vector3(0, 1, 0), color: '#44dd44' },
+  { axis: new THREE.Vector3(0, 0, 1), color: '#4488ff' }
+];
+
+// 世界坐标投影到画布上的像素坐标
+const projectToCanvas = (world: THREE.Vector3, camera: THREE.Camera, rect: DOMRect) => {
+  const ndc = world.clone().project(camera);
+  return {
+    x: (ndc.x + 1) / 2 * rect.width,
+    y: (1 - ndc.y) / 2 * rect.height,
+    // 相机后方的点投影无效
+    visible: ndc.z >= -1 && ndc.z <= 1
+  };
+};
+
+// 单个轴向的移动箭头
+const GizmoArrow = ({
+  axis,
+  color,
+  length,
+  onDragStart
+}: {
+  axis: THREE.Vector3;
+  color: string;
+  length: number;
+  onDragStart: (axis: THREE.Vector3, e: ThreeEvent<PointerEvent>) => void;
+}) => {
+  const [hovered, setHovered] = useState(false);
+
+  // 圆柱默认沿 +Y，旋转到目标轴向
+  const quaternion = useMemo(
+    () => new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 1, 0), axis),
+    [axis]
+  );
+
+  return (
+    <group quaternion={quaternion}>
+      <mesh
+        position={[0, length / 2, 0]}
+        renderOrder={1000}
+        onPointerDown={(e) => onDragStart(axis, e)}
+        onPointerOver={() => setHovered(true)}
+        onPointerOut={() => setHovered(false)}
+      >
+        <cylinderGeometry args={[0.03, 0.03, length, 8]} />
+        <meshBasicMaterial color={hovered ? '#ffffff' : color} depthTest={false} transparent />
+      </mesh>
+      <mesh
+        position={[0, length + 0.08, 0]}
+        renderOrder={1000}
+        onPointerDown={(e) => onDragStart(axis, e)}
+        onPointerOver={() => setHovered(true)}
+        onPointerOut={() => setHovered(false)}
+      >
+        <coneGeometry args={[0.08, 0.16, 12]} />
+        <meshBasicMaterial color={hovered ? '#ffffff' : color} depthTest={false} transparent />
+      </mesh>
+    </group>
+  );
+};
+
+// 选择工具 - 点击/Shift 点击/框选体素，显示选区轮廓、移动控制柄，以及粘贴、形状和直线的放置预览
+export const SelectionTool = () => {
+  const { toolMode, voxelIndex, selection, pasteBuffer, hoveredVoxel, selectedFace, pickingLine, lineStart,
+    activeColor, selectCells, clearSelection, moveSelection, commitPaste, pickLinePoint } = useStore();
+  const { camera, gl } = useThree();
+
+  // 控制柄拖动中的轴向和当前偏移（格）
+  const [gizmoDrag, setGizmoDrag] = useState<{
+    axis: THREE.Vector3;
+    startX: number;
+    startY: number;
+    // 沿轴移动一格对应的屏幕位移（像素）
+    screenStep: THREE.Vector2;
+    offset: number;
+  } | null>(null);
+  const gizmoDragRef = useRef(gizmoDrag);
+  gizmoDragRef.current = gizmoDrag;
+
+  // 选区中仍然存在的体素（索引每次编辑都会生成新的引用）
+  const selectedVoxels = useMemo(() => {
+    const voxels: Voxel[] = [];
+    selection.forEach(key => {
+      const voxel = voxelIndex.get(parseCellKey(key));
+      if (voxel) voxels.push(voxel);
+    });
+    return voxels;
+  }, [selection, voxelIndex]);
+
+  // 选区包围盒中心（世界坐标）及控制柄长度
+  const gizmo = useMemo(() => {
+    const bounds = getCellBounds(selectedVoxels);
+    if (!bounds) return null;
+    const center = cellToWorld(bounds.min.clone().add(bounds.max).multiplyScalar(0.5));
+    const extent = bounds.max.clone().sub(bounds.min).addScalar(1).multiplyScalar(CELL_HALF);
+    return { center, length: Math.max(extent.x, extent.y, extent.z) + 0.3 };
+  }, [selectedVoxels]);
+
+  // 控制柄拖动中的偏移量（格点）
+  const dragOffset = useMemo(
+    () => gizmoDrag ? gizmoDrag.axis.clone().multiplyScalar(gizmoDrag.offset) : null,
+    [gizmoDrag]
+  );
+
+  // 选区轮廓（拖动时显示在移动后的位置）
+  const outlineCells = useMemo(
+    () => selectedVoxels.map(voxel => dragOffset ? voxel.position.clone().add(dragOffset) : voxel.position),
+    [selectedVoxels, dragOffset]
+  );
+
+  // 粘贴预览：放在悬停面外侧，与已有体素冲突的格点标红
+  const pastePreview = useMemo(() => {
+    if (!pasteBuffer || !hoveredVoxel || !selectedFace) return null;
+    const target = hoveredVoxel.position.clone().add(selectedFace.normal);
+    const origin = getPasteOrigin(pasteBuffer, target, selectedFace.normal);
+    const cells = pasteBuffer.map(voxel => voxel.position.clone().add(origin));
+    const colors = cells.map((cell, i) => voxelIndex.has(cellOf(cell)) ? COLLISION_COLOR : pasteBuffer[i].color);
+    return { origin, cells, colors };
+  }, [pasteBuffer, hoveredVoxel, selectedFace, voxelIndex]);
+  const pasteOriginRef = useRef<THREE.Vector3 | null>(null);
+  pasteOriginRef.current = pastePreview?.origin ?? null;
+
+  // 直线预览：从已选起点到悬停面外侧的格点
+  const linePreview = useMemo(() => {
+    if (!pickingLine) return null;
+    const target = hoveredVoxel && selectedFace ? hoveredVoxel.position.clone().add(selectedFace.normal) : null;
+    if (lineStart && target) return bresenhamLine(lineStart, target);
+    const cell = lineStart ?? target;
+    return cell ? [cell] : null;
+  }, [pickingLine, lineStart, hoveredVoxel, selectedFace]);
+
+  // 开始拖动控制柄
+  const handleGizmoDragStart = (axis: THREE.Vector3, e: ThreeEvent<PointerEvent>) => {
+    if (!gizmo || e.nativeEvent.button !== 0) return;
+    e.stopPropagation();
+    const rect = gl.domElement.getBoundingClientRect();
+    const from = projectToCanvas(gizmo.center, camera, rect);
+    const to = projectToCanvas(gizmo.center.clone().addScaledVector(axis, CELL_SIZE), camera, rect);
+    const screenStep = new THREE.Vector2(to.x - from.x, to.y - from.y);
+    // 轴向几乎正对相机时无法沿该轴拖动
+    if (screenStep.lengthSq() < 1) return;
+    const drag = { axis, startX: e.nativeEvent.clientX, startY: e.nativeEvent.clientY, screenStep, offset: 0 };
+    // 立即同步到 ref，随后的 mousedown 据此跳过框选
+    gizmoDragRef.current = drag;
+    setGizmoDrag(drag);
+  };
+
+  // 控制柄拖动：鼠标位移投影到轴向的屏幕方向上，按整格吸附，释放时执行移动
+  const dragging = gizmoDrag !== null;
+  useEffect(() => {
+    if (!dragging) return;
+
+    const handleMove = (e: PointerEvent) => {
+      const drag = gizmoDragRef.current;
+      if (!drag) return;
+      const delta = new THREE.Vector2(e.clientX - drag.startX, e.clientY - drag.startY);
+      const offset = Math.round(delta.dot(drag.screenStep) / drag.screenStep.lengthSq());
+      if (offset !== drag.offset) {
+        setGizmoDrag({ ...drag, offset });
+      }
+    };
+
+    const handleUp = () => {
+      const drag = gizmoDragRef.current;
+      if (drag && drag.offset !== 0) {
+        moveSelection(drag.axis.clone().multiplyScalar(drag.offset));
+      }
+      setGizmoDrag(null);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [dragging, moveSelection]);
+
+  // 点击选择、框选和确认粘贴
+  useEffect(() => {
+    if (toolMode !== 'select') return;
+
+    const canvas = gl.domElement;
+    let start: { x: number; y: number } | null = null;
+    let box: HTMLDivElement | null = null;
+
+    // 框选矩形（画布像素坐标）
+    const boxRect = (e: MouseEvent) => {
+      const rect = canvas.getBoundingClientRect();
+      const x = e.clientX - rect.left;
+      const y = e.clientY - rect.top;
+      return {
+        left: Math.min(start!.x, x),
+        top: Math.min(start!.y, y),
+        right: Math.max(start!.x, x),
+        bottom: Math.max(start!.y, y)
+      };
+    };
+
+    const handleMouseDown = (e: MouseEvent) => {
+      // 只响应画布上的左键，拖动控制柄时不框选
+      if (e.button !== 0 || e.target !== canvas || gizmoDragRef.current) return;
+      const rect = canvas.getBoundingClientRect();
+      start = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    };
+
+    const handleMouseMove = (e: MouseEvent) => {
+      if (!start) return;
+      const r = boxRect(e);
+      if (r.right - r.left < CLICK_THRESHOLD && r.bottom - r.top < CLICK_THRESHOLD) return;
+
+      if (!box) {
+        box = document.createElement('div');
+        box.className = 'selection-rect';
+        canvas.parentElement?.appendChild(box);
+      }
+      box.style.left = `${r.left}px`;
+      box.style.top = `${r.top}px`;
+      box.style.width = `${r.right - r.left}px`;
+      box.style.height = `${r.bottom - r.top}px`;
+    };
+
+    const handleMouseUp = (e: MouseEvent) => {
+      if (!start) return;
+      const r = boxRect(e);
+      start = null;
+      const isBox = box !== null;
+      box?.remove();
+      box = null;
+
+      const state = useStore.getState();
+      const mode = e.shiftKey ? 'toggle' : 'replace';
+
+      if (!isBox) {
+        // 粘贴中点击确认放置
+        if (state.pasteBuffer) {
+          if (pasteOriginRef.current) commitPaste(pasteOriginRef.current);
+          return;
+        }
+        // 选取直线端点：使用悬停面外侧的空格点
+        if (state.pickingLine) {
+          if (state.hoveredVoxel && state.selectedFace) {
+            pickLinePoint(state.hoveredVoxel.position.clone().add(state.selectedFace.normal));
+          }
+          return;
+        }
+        // 点击选择悬停的体素，点击空白处清空选区
+        if (state.hoveredVoxel) {
+          selectCells([positionKey(state.hoveredVoxel.position)], mode);
+        } else if (!e.shiftKey) {
+          clearSelection();
+        }
+        return;
+      }
+
+      // 放置过程中不框选
+      if (state.pasteBuffer || state.pickingLine) return;
+
+      // 框选：选中中心投影落在矩形内的所有可见体素（隐藏图层和剖切面外的体素除外），按住 Shift 时加入现有选区
+      const rect = canvas.getBoundingClientRect();
+      const world = new THREE.Vector3();
+      const keys: string[] = [];
+      state.voxels.filter(state.isVoxelVisible).forEach(voxel => {
+        const p = projectToCanvas(cellToWorld(voxel.position, world), camera, rect);
+        if (p.visible && p.x >= r.left && p.x <= r.right && p.y >= r.top && p.y <= r.bottom) {
+          keys.push(positionKey(voxel.position));
+        }
+      });
+      selectCells(keys, e.shiftKey ? 'add' : 'replace');
+    };
+
+    window.addEventListener('mousedown', handleMouseDown);
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousedown', handleMouseDown);
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+      box?.remove();
+    };
+  }, [toolMode, gl, camera, selectCells, clearSelection, commitPaste, pickLinePoint]);
+
+  return (
+    <>
+      {/* 选区轮廓 */}
+      <PreviewVoxels
+        cells={outlineCells}
+        color={SELECTION_COLOR}
+        opacity={0.9}
+        wireframe
+        scale={1.04}
+      />
+
+      {/* 移动控制柄 */}
+      {toolMode === 'select' && gizmo && !pasteBuffer && !pickingLine && (
+        <group position={dragOffset ? gizmo.center.clone().addScaledVector(dragOffset, CELL_SIZE) : gizmo.center}>
+          {GIZMO_AXES.map(({ axis, color }) => (
+            <GizmoArrow
+              key={color}
+              axis={axis}
+              color={color}
+              length={gizmo.length}
+              onDragStart={handleGizmoDragStart}
+            />
+          ))}
+        </group>
+      )}
+
+      {/* 直线预览 */}
+      {linePreview && (
+        <PreviewVoxels
+          cells={linePreview}
+          color={activeColor}
+          opacity={0.6}
+        />
+      )}
+
+      {/* 粘贴预览 */}
+      {pastePreview && (
+        <PreviewVoxels
+          cells={pastePreview.cells}
+          colors={pastePreview.colors}
+          color="#ffffff"
+          opacity={0.6}
+        />
+      )}
+    </>
+  );
+};
@@ -0,0 +1,40 @@
+import * as THREE from 'three';
+import { useStore } from '../hooks/useStore';
+import { SYMMETRY_AXES, SymmetryAxis } from '../utils/symmetry';
+import { CELL_SIZE } from '../utils/grid';
+
+// 对称面的显示尺寸（世界单位）
+const PLANE_SIZE = 9;
+
+// 各轴对称面的颜色和朝向（平面几何体默认法线为 +Z）
+const PLANE_STYLES: Record<SymmetryAxis, { color: string; rotation: [number, number, number] }> = {
+  x: { color: '#ff4444', rotation: [0, Math.PI / 2, 0] },
+  y: { color: '#44dd44', rotation: [-Math.PI / 2, 0, 0] },
+  z: { color: '#4488ff', rotation: [0, 0, 0] }
+};
+
+// 对称面 - 半透明显示所有启用的对称面，不参与射线拾取
+export const SymmetryPlanes = () => {
+  const { symmetry } = useStore();
+  
+  return (
+    <>
+      {SYMMETRY_AXES.filter(axis => symmetry.axes[axis]).map(axis => {
+        const position: [number, number, number] = [0, 0, 0];
+        position[SYMMETRY_AXES.indexOf(axis)] = symmetry.plane[axis] * CELL_SIZE;
+        return (
+          <mesh key={axis} position={position} rotation={PLANE_STYLES[axis].rotation} raycast={() => null}>
+            <planeGeometry args={[PLANE_SIZE, PLANE_SIZE]} />
+            <meshBasicMaterial
+              color={PLANE_STYLES[axis].color}
+              transparent
+              opacity={0.15}
+              side={THREE.DoubleSide}
+              depthWrite={false}
+            />
+          </mesh>
+        );
+      })}
+    </>
+  );
+};
@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { useStore } from '../../hooks/useStore';
+import { PRESET_COLORS } from '../../utils/color';
+import { MaterialPicker } from './MaterialPicker';
+
+// 调色板面板 - 当前颜色、最近使用颜色、完整取色器和当前材质
+export const ColorPalette = () => {
+  const { activeColor, recentColors, setActiveColor, commitRecentColor, pushPullColorMode, setPushPullColorMode, replaceColor } = useStore();
+  
+  // 点击色块直接选定颜色并加入最近使用列表；取色器拖动时只更新当前颜色，失去焦点时才加入
+  const selectColor = (color: string) => {
+    setActiveColor(color);
+    commitRecentColor();
+  };
+  
+  // 替换颜色时被替换的颜色
+  const [replaceFrom, setReplaceFrom] = useState(activeColor);
+  
+  return (
+    <div className="color-palette">
+      <div className="color-current">
+        <input
+          type="color"
+          value={activeColor}
+          onChange={(e) => setActiveColor(e.target.value)}
+          onBlur={commitRecentColor}
+          title="选择颜色"
+        />
+        <span>{activeColor}</span>
+      </div>
+      
+      <div className="color-swatches">
+        {PRESET_COLORS.map(color => (
+          <button
+            key={color}
+            className={`color-swatch ${color === activeColor ? 'active' : ''}`}
+            style={{ backgroundColor: color }}
+            onClick={() => selectColor(color)}
+            title={color}
+          />
+        ))}
+      </div>
+      
+      {recentColors.length > 0 && (
+        <>
+          <div className="color-label">最近使用</div>
+          <div className="color-swatches">
+            {recentColors.map(color => (
+              <button
+                key={color}
+                className={`color-swatch ${color === activeColor ? 'active' : ''}`}
+                style={{ backgroundColor: color }}
+                onClick={() => selectColor(color)}
+                title={color}
+              />
+            ))}
+          </div>
+        </>
+      )}
+      
+      <MaterialPicker />
+      
+      <label className="color-option">
+        <input
+          type="checkbox"
+          checked={pushPullColorMode === 'active'}
+          onChange={(e) => setPushPullColorMode(e.target.checked ? 'active' : 'inherit')}
+        />
+        推拉使用当前颜色和材质
+      </label>
+      
+      <div className="color-current">
+        <input
+          type="color"
+          value={replaceFrom}
+          onChange={(e) => setReplaceFrom(e.target.value)}
+          title="被替换的颜色"
+        />
+        <button
+          className="format-button"
+          onClick={() => replaceColor(replaceFrom, activeColor)}
+          disabled={replaceFrom.toLowerCase() === activeColor}
+          title="将模型中所有该颜色的体素替换为当前颜色"
+        >
+          替换为当前颜色
+        </button>
+      </div>
+    </div>
+  );
+};
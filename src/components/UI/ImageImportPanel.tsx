@@ -0,0 +1,159 @@
+import { ChangeEvent, useEffect, useMemo, useRef, useState } from 'react';
+import { useStore } from '../../hooks/useStore';
+import { PRESET_COLORS } from '../../utils/color';
+import { imageToVoxels, readImagePixels, ImageImportMode, ImagePlane, MAX_IMAGE_SIZE } from '../../utils/imageImport';
+
+// 图片导入面板 - 选择图片后在场景中预览，确认后才写入模型
+export const ImageImportPanel = () => {
+  const { recentColors, importPreview, setImportPreview, addVoxels } = useStore();
+  const inputRef = useRef<HTMLInputElement>(null);
+  
+  const [image, setImage] = useState<ImageBitmap | null>(null);
+  const [mode, setMode] = useState<ImageImportMode>('pixel');
+  const [plane, setPlane] = useState<ImagePlane>('xy');
+  const [width, setWidth] = useState(32);
+  const [depth, setDepth] = useState(1);
+  const [maxHeight, setMaxHeight] = useState(16);
+  const [quantize, setQuantize] = useState(true);
+  
+  // 当前调色板：常用颜色和最近使用颜色
+  const palette = useMemo(() => Array.from(new Set([...PRESET_COLORS, ...recentColors])), [recentColors]);
+  
+  // 图片或选项变化时更新预览
+  useEffect(() => {
+    if (!image) return;
+    const pixels = readImagePixels(image, width);
+    setImportPreview(imageToVoxels(pixels, {
+      mode,
+      plane,
+      depth,
+      maxHeight,
+      palette: quantize ? palette : null
+    }));
+  }, [image, mode, plane, width, depth, maxHeight, quantize, palette, setImportPreview]);
+  
+  // 关闭面板时清除预览
+  useEffect(() => () => setImportPreview(null), [setImportPreview]);
+  
+  // 选择图片
+  const handleSelect = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    
+    try {
+      const bitmap = await createImageBitmap(file);
+      setWidth(Math.min(bitmap.width, MAX_IMAGE_SIZE));
+      setImage(bitmap);
+    } catch (error) {
+      console.error("读取图片出错:", error);
+      window.alert(`无法读取图片 "${file.name}"`);
+    }
+  };
+  
+  // 取消导入
+  const handleCancel = () => {
+    image?.close();
+    setImage(null);
+    setImportPreview(null);
+  };
+  
+  // 确认导入，预览中的体素作为一个可撤销的步骤加入模型
+  const handleCommit = () => {
+    if (importPreview) {
+      addVoxels(importPreview, '导入图片');
+    }
+    handleCancel();
+  };
+  
+  return (
+    <div className="import-export">
+      <div className="color-label">图片导入</div>
+      
+      {!image ? (
+        <div className="format-buttons">
+          <button className="format-button" onClick={() => inputRef.current?.click()} title="导入像素画或高度图">
+            选择图片
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className="format-options">
+            <select value={mode} onChange={(e) => setMode(e.target.value as ImageImportMode)} title="导入方式">
+              <option value="pixel">像素画</option>
+              <option value="heightmap">高度图</option>
+            </select>
+            <label className="color-option">
+              宽度
+              <input
+                type="number"
+                min={1}
+                max={MAX_IMAGE_SIZE}
+                value={width}
+                onChange={(e) => setWidth(Math.max(1, Math.min(MAX_IMAGE_SIZE, Number(e.target.value))))}
+              />
+              格
+            </label>
+            {mode === 'pixel' ? (
+              <>
+                <select value={plane} onChange={(e) => setPlane(e.target.value as ImagePlane)} title="放置平面">
+                  <option value="xy">竖直平面（面向 Z）</option>
+                  <option value="zy">竖直平面（面向 X）</option>
+                  <option value="xz">水平地面</option>
+                </select>
+                <label className="color-option">
+                  挤出
+                  <input
+                    type="number"
+                    min={1}
+                    max={64}
+                    value={depth}
+                    onChange={(e) => setDepth(Math.max(1, Math.min(64, Number(e.target.value))))}
+                  />
+                  层
+                </label>
+              </>
+            ) : (
+              <label className="color-option">
+                最大高度
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_IMAGE_SIZE}
+                  value={maxHeight}
+                  onChange={(e) => setMaxHeight(Math.max(1, Math.min(MAX_IMAGE_SIZE, Number(e.target.value))))}
+                />
+                格
+              </label>
+            )}
+            <label className="color-option">
+              <input
+                type="checkbox"
+                checked={quantize}
+                onChange={(e) => setQuantize(e.target.checked)}
+              />
+              使用调色板颜色
+            </label>
+          </div>
+          
+          <div className="format-buttons">
+            <button className="format-button" onClick={handleCommit} title="将预览中的体素加入模型">
+              确认导入 ({importPreview?.length ?? 0})
+            </button>
+            <button className="format-button" onClick={handleCancel}>
+              取消
+            </button>
+          </div>
+        </>
+      )}
+      
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        style={{ display: 'none' }}
+        onChange={handleSelect}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,262 @@
+import { ChangeEvent, useRef, useState } from 'react';
+import { useStore } from '../../hooks/useStore';
+import { downloadFile } from '../../utils/download';
+import { FormatError } from '../../utils/formats/formatError';
+import { parseVox, exportVox } from '../../utils/formats/vox';
+import { exportStl, StlFormat } from '../../utils/formats/stl';
+import { exportGlb } from '../../utils/formats/gltf';
+import { exportObj, ObjGrouping } from '../../utils/formats/obj';
+import { loadMeshFile, MESH_FILE_ACCEPT } from '../../utils/formats/meshImport';
+import { voxelizeObject, VoxelizeFill, VoxelizeSizing, MAX_VOXELIZE_RESOLUTION } from '../../utils/voxelize';
+import { filterVoxelsByLayers, getVisibleLayerIds } from '../../utils/layers';
+
+// 导出范围：所有可见图层，或只导出当前图层
+type ExportScope = 'visible' | 'active';
+
+// 导入导出面板 - 与其他软件交换模型文件
+export const ImportExportPanel = () => {
+  const { voxels, replaceVoxels, voxelSize, activeColor, layers, activeLayer, materials } = useStore();
+  const voxInputRef = useRef<HTMLInputElement>(null);
+  const meshInputRef = useRef<HTMLInputElement>(null);
+  
+  // STL 导出选项
+  const [stlFormat, setStlFormat] = useState<StlFormat>('binary');
+  const [splitParts, setSplitParts] = useState(false);
+  
+  // OBJ 对象划分方式
+  const [objGrouping, setObjGrouping] = useState<ObjGrouping>('single');
+  
+  // 导出范围
+  const [exportScope, setExportScope] = useState<ExportScope>('visible');
+  
+  // 网格体素化选项，progress 不为 null 时表示正在体素化
+  const [sizing, setSizing] = useState<VoxelizeSizing>('fit');
+  const [resolution, setResolution] = useState(32);
+  const [unitMm, setUnitMm] = useState(1);
+  const [fill, setFill] = useState<VoxelizeFill>('solid');
+  const [progress, setProgress] = useState<number | null>(null);
+  
+  // 按导出范围筛选体素，隐藏图层中的体素不导出
+  const getExportVoxels = () => {
+    const visible = getVisibleLayerIds(layers);
+    const layerIds = exportScope === 'active'
+      ? new Set(visible.has(activeLayer) ? [activeLayer] : [])
+      : visible;
+    const result = filterVoxelsByLayers(voxels, layerIds);
+    if (result.length === 0) {
+      throw new FormatError('没有可导出的体素，隐藏图层中的体素不会导出');
+    }
+    return result;
+  };
+  
+  // 导入 MagicaVoxel 文件，替换当前模型（可撤销）
+  const handleImportVox = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    
+    try {
+      const { voxels: imported, warnings } = parseVox(await file.arrayBuffer());
+      if (replaceVoxels(imported, '导入 .vox') && warnings.length > 0) {
+        window.alert(`已导入 "${file.name}"，但有以下问题:\n${warnings.join('\n')}`);
+      }
+    } catch (error) {
+      console.error("导入 .vox 出错:", error);
+      const message = error instanceof FormatError ? error.message : '读取文件失败';
+      window.alert(`无法导入 "${file.name}": ${message}`);
+    }
+  };
+  
+  // 导出为 MagicaVoxel 文件
+  const handleExportVox = () => {
+    try {
+      const { data, warnings } = exportVox(getExportVoxels());
+      if (warnings.length > 0) {
+        window.alert(`导出时有以下问题:\n${warnings.join('\n')}`);
+      }
+      downloadFile(data, 'voxel-model.vox', 'application/octet-stream');
+    } catch (error) {
+      console.error("导出 .vox 出错:", error);
+      const message = error instanceof FormatError ? error.message : '导出失败';
+      window.alert(`无法导出: ${message}`);
+    }
+  };
+  
+  // 导出 STL，尺寸按当前体素尺寸换算为毫米
+  const handleExportStl = () => {
+    try {
+      const files = exportStl(getExportVoxels(), { format: stlFormat, voxelSize, splitParts });
+      console.log(`导出 STL: 文件数=${files.length}, 格式=${stlFormat}`);
+      files.forEach(file => downloadFile(file.data, file.filename, 'model/stl'));
+    } catch (error) {
+      console.error("导出 STL 出错:", error);
+      const message = error instanceof FormatError ? error.message : '导出失败';
+      window.alert(`无法导出: ${message}`);
+    }
+  };
+  
+  // 导出 GLB，用于游戏引擎和网页查看器
+  const handleExportGlb = async () => {
+    try {
+      const data = await exportGlb(getExportVoxels(), voxelSize, materials);
+      downloadFile(data, 'voxel-model.glb', 'model/gltf-binary');
+    } catch (error) {
+      console.error("导出 GLB 出错:", error);
+      const message = error instanceof FormatError ? error.message : '导出失败';
+      window.alert(`无法导出: ${message}`);
+    }
+  };
+  
+  // 导出 OBJ 和 MTL 两个文件
+  const handleExportObj = () => {
+    try {
+      const name = 'voxel-model';
+      const { obj, mtl } = exportObj(getExportVoxels(), { voxelSize, grouping: objGrouping, name });
+      downloadFile(obj, `${name}.obj`, 'model/obj');
+      downloadFile(mtl, `${name}.mtl`, 'model/mtl');
+    } catch (error) {
+      console.error("导出 OBJ 出错:", error);
+      const message = error instanceof FormatError ? error.message : '导出失败';
+      window.alert(`无法导出: ${message}`);
+    }
+  };
+  
+  // 导入三角网格并体素化，替换当前模型（可撤销）
+  const handleImportMesh = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    
+    setProgress(0);
+    try {
+      const { object, useMaterialColor } = await loadMeshFile(file);
+      const { voxels: imported, warnings } = await voxelizeObject(object, {
+        sizing,
+        resolution,
+        unitMm,
+        voxelSize,
+        fill,
+        defaultColor: activeColor,
+        useMaterialColor
+      }, setProgress);
+      if (replaceVoxels(imported, '导入网格') && warnings.length > 0) {
+        window.alert(`已导入 "${file.name}"，但有以下问题:\n${warnings.join('\n')}`);
+      }
+    } catch (error) {
+      console.error("体素化网格出错:", error);
+      const message = error instanceof FormatError ? error.message : '读取文件失败';
+      window.alert(`无法导入 "${file.name}": ${message}`);
+    } finally {
+      setProgress(null);
+    }
+  };
+  
+  return (
+    <div className="import-export">
+      <div className="color-label">导入 / 导出</div>
+      <div className="format-buttons">
+        <button className="format-button" onClick={() => voxInputRef.current?.click()} title="导入 MagicaVoxel 模型">
+          导入 .vox
+        </button>
+        <button className="format-button" onClick={handleExportVox} title="导出为 MagicaVoxel 模型">
+          导出 .vox
+        </button>
+        <button className="format-button" onClick={handleExportStl} title="导出用于 3D 打印的 STL 模型">
+          导出 STL
+        </button>
+        <button className="format-button" onClick={handleExportGlb} title="导出带顶点颜色的 GLB 模型">
+          导出 GLB
+        </button>
+        <button className="format-button" onClick={handleExportObj} title="导出 OBJ 模型和 MTL 材质文件">
+          导出 OBJ
+        </button>
+      </div>
+      
+      <div className="format-options">
+        <select value={exportScope} onChange={(e) => setExportScope(e.target.value as ExportScope)} title="导出范围">
+          <option value="visible">导出所有可见图层</option>
+          <option value="active">只导出当前图层</option>
+        </select>
+        <select value={stlFormat} onChange={(e) => setStlFormat(e.target.value as StlFormat)} title="STL 格式">
+          <option value="binary">二进制 STL</option>
+          <option value="ascii">ASCII STL</option>
+        </select>
+        <label className="color-option">
+          <input
+            type="checkbox"
+            checked={splitParts}
+            onChange={(e) => setSplitParts(e.target.checked)}
+          />
+          不相连部件分别导出
+        </label>
+        <select value={objGrouping} onChange={(e) => setObjGrouping(e.target.value as ObjGrouping)} title="OBJ 对象划分">
+          <option value="single">OBJ: 单个对象</option>
+          <option value="color">OBJ: 每种颜色一个对象</option>
+          <option value="part">OBJ: 每个部件一个对象</option>
+        </select>
+      </div>
+      
+      <div className="color-label">网格体素化</div>
+      <div className="format-buttons">
+        <button
+          className="format-button"
+          onClick={() => meshInputRef.current?.click()}
+          disabled={progress !== null}
+          title="导入 STL、OBJ 或 GLB 网格并转换为体素"
+        >
+          {progress === null ? '导入网格' : `体素化中 ${Math.round(progress * 100)}%`}
+        </button>
+      </div>
+      <div className="format-options">
+        <select value={sizing} onChange={(e) => setSizing(e.target.value as VoxelizeSizing)} title="尺寸方式">
+          <option value="fit">按最长边格数</option>
+          <option value="scale">按实际尺寸</option>
+        </select>
+        {sizing === 'fit' ? (
+          <label className="color-option">
+            最长边
+            <input
+              type="number"
+              min={1}
+              max={MAX_VOXELIZE_RESOLUTION}
+              value={resolution}
+              onChange={(e) => setResolution(Math.max(1, Math.min(MAX_VOXELIZE_RESOLUTION, Number(e.target.value))))}
+            />
+            格
+          </label>
+        ) : (
+          <label className="color-option">
+            1 单位 =
+            <input
+              type="number"
+              min={0.001}
+              step={0.1}
+              value={unitMm}
+              onChange={(e) => setUnitMm(Number(e.target.value))}
+            />
+            mm
+          </label>
+        )}
+        <select value={fill} onChange={(e) => setFill(e.target.value as VoxelizeFill)} title="填充方式">
+          <option value="solid">实心</option>
+          <option value="surface">仅表面</option>
+        </select>
+      </div>
+      
+      <input
+        ref={meshInputRef}
+        type="file"
+        accept={MESH_FILE_ACCEPT}
+        style={{ display: 'none' }}
+        onChange={handleImportMesh}
+      />
+      <input
+        ref={voxInputRef}
+        type="file"
+        accept=".vox"
+        style={{ display: 'none' }}
+        onChange={handleImportVox}
+      />
+    </div>
+  );
+};
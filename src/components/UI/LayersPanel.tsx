@@ -0,0 +1,87 @@
+import { useMemo } from 'react';
+import { useStore } from '../../hooks/useStore';
+
+// 图层面板 - 新建、切换、重命名、显示/隐藏、锁定、排序和向下合并图层
+export const LayersPanel = () => {
+  const { layers, activeLayer, voxels, addLayer, setActiveLayer, renameLayer, setLayerVisible, setLayerLocked,
+    moveLayer, mergeLayer } = useStore();
+
+  // 各图层的体素数量
+  const counts = useMemo(() => {
+    const result = new Map<string, number>();
+    voxels.forEach(voxel => {
+      const layer = voxel.layer ?? '';
+      result.set(layer, (result.get(layer) ?? 0) + 1);
+    });
+    return result;
+  }, [voxels]);
+
+  return (
+    <div className="layers-panel">
+      <div className="format-buttons">
+        <span className="color-label">图层</span>
+        <button className="format-button" onClick={addLayer} title="在当前图层之上新建图层">
+          新建图层
+        </button>
+      </div>
+
+      {layers.map((layer, i) => (
+        <div
+          key={layer.id}
+          className={`layer-row ${layer.id === activeLayer ? 'active' : ''}`}
+          onClick={() => setActiveLayer(layer.id)}
+        >
+          <input
+            type="checkbox"
+            checked={layer.visible}
+            onChange={(e) => setLayerVisible(layer.id, e.target.checked)}
+            onClick={(e) => e.stopPropagation()}
+            title="显示"
+          />
+          <input
+            type="checkbox"
+            checked={layer.locked}
+            onChange={(e) => setLayerLocked(layer.id, e.target.checked)}
+            onClick={(e) => e.stopPropagation()}
+            title="锁定"
+          />
+          <input
+            key={layer.name}
+            className="layer-name"
+            defaultValue={layer.name}
+            onBlur={(e) => renameLayer(layer.id, e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') e.currentTarget.blur();
+            }}
+            title="图层名称"
+          />
+          <span className="color-label">{counts.get(layer.id) ?? 0}</span>
+          <button className="format-button" onClick={() => moveLayer(layer.id, -1)} disabled={i === 0} title="上移">
+            ↑
+          </button>
+          <button
+            className="format-button"
+            onClick={() => moveLayer(layer.id, 1)}
+            disabled={i === layers.length - 1}
+            title="下移"
+          >
+            ↓
+          </button>
+          <button
+            className="format-button"
+            onClick={(e) => {
+              e.stopPropagation();
+              mergeLayer(layer.id, layers[i + 1].id);
+            }}
+            disabled={i === layers.length - 1}
+            title="向下合并到下一个图层（不可撤销）"
+          >
+            合并
+          </button>
+        </div>
+      ))}
+
+      <div className="color-label">勾选框依次为显示和锁定，隐藏或锁定的图层不可编辑</div>
+    </div>
+  );
+};
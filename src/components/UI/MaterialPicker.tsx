@@ -0,0 +1,66 @@
+import { useStore } from '../../hooks/useStore';
+import { MAX_EMISSIVE, VoxelMaterial, isPresetMaterial } from '../../utils/materials';
+
+// 可编辑的材质参数：字段、显示名称和最大值
+const MATERIAL_SLIDERS: { field: keyof Omit<VoxelMaterial, 'id' | 'name'>; label: string; max: number }[] = [
+  { field: 'roughness', label: '粗糙度', max: 1 },
+  { field: 'metalness', label: '金属度', max: 1 },
+  { field: 'emissive', label: '自发光', max: MAX_EMISSIVE },
+  { field: 'opacity', label: '不透明度', max: 1 }
+];
+
+// 材质选择器 - 选择当前材质，新建自定义材质并调整其参数（预设材质只读）
+export const MaterialPicker = () => {
+  const { materials, activeMaterial, setActiveMaterial, addMaterial, updateMaterial } = useStore();
+  const current = materials.find(material => material.id === activeMaterial);
+  const editable = !!current && !isPresetMaterial(current.id);
+
+  return (
+    <>
+      <div className="color-label">材质</div>
+      <div className="format-buttons">
+        {materials.map(material => (
+          <button
+            key={material.id}
+            className={`format-button ${material.id === activeMaterial ? 'active' : ''}`}
+            onClick={() => setActiveMaterial(material.id)}
+          >
+            {material.name}
+          </button>
+        ))}
+        <button className="format-button" onClick={addMaterial} title="以当前材质为模板新建自定义材质">
+          新建材质
+        </button>
+      </div>
+
+      {current && editable && (
+        <div className="format-options">
+          <input
+            key={current.name}
+            className="layer-name"
+            defaultValue={current.name}
+            onBlur={(e) => updateMaterial(current.id, { name: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') e.currentTarget.blur();
+            }}
+            title="材质名称"
+          />
+          {MATERIAL_SLIDERS.map(({ field, label, max }) => (
+            <label key={field} className="color-option">
+              {label}
+              <input
+                type="range"
+                min={0}
+                max={max}
+                step={0.05}
+                value={current[field]}
+                onChange={(e) => updateMaterial(current.id, { [field]: Number(e.target.value) })}
+              />
+              {current[field].toFixed(2)}
+            </label>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
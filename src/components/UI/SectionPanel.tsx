@@ -0,0 +1,71 @@
+import { WheelEvent, useMemo } from 'react';
+import { useStore } from '../../hooks/useStore';
+import { SectionAxis } from '../../utils/section';
+import { getCellBounds } from '../../utils/selection';
+
+// 剖切面板 - 开关剖切视图，选择剖切轴并逐层移动剖切面
+export const SectionPanel = () => {
+  const { section, voxels, setSection } = useStore();
+
+  // 滑块范围为模型在剖切轴上的范围，两端各多留一层
+  const [min, max] = useMemo(() => {
+    const bounds = getCellBounds(voxels);
+    if (!bounds) return [-1, 1];
+    return [bounds.min[section.axis] - 1, bounds.max[section.axis] + 1];
+  }, [voxels, section.axis]);
+
+  // 在滑块上滚动鼠标滚轮时逐层移动
+  const handleWheel = (e: WheelEvent<HTMLInputElement>) => {
+    if (e.deltaY === 0) return;
+    const step = e.deltaY < 0 ? 1 : -1;
+    setSection({ position: Math.max(min, Math.min(max, section.position + step)) });
+  };
+
+  return (
+    <div className="import-export">
+      <label className="color-option">
+        <input
+          type="checkbox"
+          checked={section.enabled}
+          onChange={(e) => setSection({ enabled: e.target.checked })}
+        />
+        剖切视图
+      </label>
+
+      {section.enabled && (
+        <div className="format-options">
+          <select
+            value={section.axis}
+            onChange={(e) => setSection({ axis: e.target.value as SectionAxis })}
+            title="剖切面垂直的轴"
+          >
+            <option value="x">垂直于 X 轴</option>
+            <option value="y">垂直于 Y 轴</option>
+            <option value="z">垂直于 Z 轴</option>
+          </select>
+          <label className="color-option">
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={1}
+              value={section.position}
+              onChange={(e) => setSection({ position: Number(e.target.value) })}
+              onWheel={handleWheel}
+              title="滚动鼠标滚轮逐层移动"
+            />
+            {section.position}
+          </label>
+          <label className="color-option">
+            <input
+              type="checkbox"
+              checked={section.flip}
+              onChange={(e) => setSection({ flip: e.target.checked })}
+            />
+            反向（保留另一侧）
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import { useStore } from '../../hooks/useStore';
+import { formatShortcuts } from '../../utils/keymap';
+
+// 选区操作面板 - 选择工具激活时显示
+export const SelectionPanel = () => {
+  const { selection, clipboard, pasteBuffer, pickingLine, lineStart, pasteOverwrite, deleteSelection, copySelection,
+    cutSelection, duplicateSelection, startPaste, cancelPaste, setPasteOverwrite, keymap } = useStore();
+  const hasSelection = selection.size > 0;
+
+  return (
+    <div className="import-export">
+      <div className="color-label">选区: {selection.size} 个体素</div>
+
+      <div className="format-buttons">
+        <button className="format-button" onClick={copySelection} disabled={!hasSelection} title={`复制 (${formatShortcuts(keymap, 'edit.copy')})`}>
+          复制
+        </button>
+        <button className="format-button" onClick={cutSelection} disabled={!hasSelection} title={`剪切 (${formatShortcuts(keymap, 'edit.cut')})`}>
+          剪切
+        </button>
+        <button className="format-button" onClick={startPaste} disabled={clipboard.length === 0} title={`粘贴 (${formatShortcuts(keymap, 'edit.paste')})`}>
+          粘贴
+        </button>
+        <button className="format-button" onClick={duplicateSelection} disabled={!hasSelection} title={`创建副本 (${formatShortcuts(keymap, 'edit.duplicate')})`}>
+          副本
+        </button>
+        <button className="format-button" onClick={deleteSelection} disabled={!hasSelection} title={`删除 (${formatShortcuts(keymap, 'selection.delete')})`}>
+          删除
+        </button>
+      </div>
+
+      <label className="color-option">
+        <input
+          type="checkbox"
+          checked={pasteOverwrite}
+          onChange={(e) => setPasteOverwrite(e.target.checked)}
+        />
+        粘贴时覆盖已有体素
+      </label>
+
+      {(pasteBuffer || pickingLine) && (
+        <div className="format-buttons">
+          <span className="color-label">
+            {pasteBuffer
+              ? '点击模型表面放置，红色为冲突格点'
+              : `点击模型表面选择直线${lineStart ? '终点' : '起点'}`}
+          </span>
+          <button className="format-button" onClick={cancelPaste} title={`取消放置 (${formatShortcuts(keymap, 'selection.cancel')})`}>
+            取消放置
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { useStore } from '../../hooks/useStore';
+import { generateShape, ShapeAxis, ShapeKind, MAX_SHAPE_SIZE } from '../../utils/shapes';
+
+// 形状名称
+const SHAPE_LABELS: Record<ShapeKind, string> = {
+  sphere: '球体',
+  cylinder: '圆柱',
+  cone: '圆锥',
+  torus: '圆环',
+  pyramid: '棱锥'
+};
+
+// 尺寸输入
+const SizeInput = ({ label, value, onChange }: { label: string; value: number; onChange: (value: number) => void }) => (
+  <label className="color-option">
+    {label}
+    <input
+      type="number"
+      min={1}
+      max={MAX_SHAPE_SIZE}
+      value={value}
+      onChange={(e) => onChange(Math.max(1, Math.min(MAX_SHAPE_SIZE, Math.round(Number(e.target.value)) || 1)))}
+    />
+    格
+  </label>
+);
+
+// 形状面板 - 生成参数化形状，在场景中预览后点击模型表面放置
+export const ShapesPanel = () => {
+  const { activeColor, startPlacement, startLinePick } = useStore();
+
+  const [kind, setKind] = useState<ShapeKind>('sphere');
+  const [width, setWidth] = useState(8);
+  const [depth, setDepth] = useState(8);
+  const [height, setHeight] = useState(8);
+  const [hollow, setHollow] = useState(false);
+  const [axis, setAxis] = useState<ShapeAxis>('y');
+
+  // 生成形状并进入放置预览
+  const handlePlace = () => {
+    const voxels = generateShape({ kind, width, depth, height, hollow, axis }, activeColor);
+    console.log(`生成形状: ${SHAPE_LABELS[kind]}, 体素数量=${voxels.length}`);
+    startPlacement(voxels, `添加${SHAPE_LABELS[kind]}`);
+  };
+
+  return (
+    <div className="import-export">
+      <div className="color-label">形状</div>
+
+      <div className="format-options">
+        <select value={kind} onChange={(e) => setKind(e.target.value as ShapeKind)} title="形状类型">
+          {(Object.keys(SHAPE_LABELS) as ShapeKind[]).map(key => (
+            <option key={key} value={key}>{SHAPE_LABELS[key]}</option>
+          ))}
+        </select>
+        {kind === 'torus' ? (
+          <>
+            <SizeInput label="外径" value={width} onChange={setWidth} />
+            <SizeInput label="管径" value={height} onChange={setHeight} />
+          </>
+        ) : (
+          <>
+            <SizeInput label="宽度" value={width} onChange={setWidth} />
+            <SizeInput label="深度" value={depth} onChange={setDepth} />
+            <SizeInput label="高度" value={height} onChange={setHeight} />
+          </>
+        )}
+        <select value={axis} onChange={(e) => setAxis(e.target.value as ShapeAxis)} title="高度方向">
+          <option value="x">沿 X 轴</option>
+          <option value="y">沿 Y 轴</option>
+          <option value="z">沿 Z 轴</option>
+        </select>
+        <label className="color-option">
+          <input
+            type="checkbox"
+            checked={hollow}
+            onChange={(e) => setHollow(e.target.checked)}
+          />
+          空心
+        </label>
+      </div>
+
+      <div className="format-buttons">
+        <button className="format-button" onClick={handlePlace} title="预览后点击模型表面放置">
+          放置形状
+        </button>
+        <button className="format-button" onClick={startLinePick} title="依次点击两个位置生成直线">
+          直线
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useStore } from '../../hooks/useStore';
+import { ACTIONS, ActionId, eventToShortcut, findConflicts } from '../../utils/keymap';
+
+// 不能作为普通快捷键单独使用的修饰键
+const MODIFIER_SHORTCUTS = new Set(['Ctrl', 'Alt', 'Shift']);
+
+// 快捷键速查表 - 按分组列出所有操作的快捷键，可添加、删除快捷键并恢复默认；冲突的快捷键标红
+export const ShortcutsOverlay = () => {
+  const { showShortcuts, setShowShortcuts, keymap, setShortcuts, resetKeymap } = useStore();
+
+  // 正在等待按键的操作
+  const [capturing, setCapturing] = useState<ActionId | null>(null);
+
+  const conflicts = useMemo(() => findConflicts(keymap), [keymap]);
+
+  // 按分组排列的操作
+  const groups = useMemo(() => {
+    const result = new Map<string, typeof ACTIONS>();
+    ACTIONS.forEach(action => result.set(action.group, [...(result.get(action.group) ?? []), action]));
+    return Array.from(result.entries());
+  }, []);
+
+  // 速查表打开时先于全局快捷键处理按键：Esc 取消录入或关闭速查表，录入时记录按下的快捷键
+  useEffect(() => {
+    if (!showShortcuts) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!capturing) {
+        if (e.key === 'Escape') {
+          e.stopPropagation();
+          setShowShortcuts(false);
+        }
+        return;
+      }
+
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        setCapturing(null);
+        return;
+      }
+
+      // 普通操作等待修饰键之后的按键，临时操作可以只用修饰键
+      const action = ACTIONS.find(a => a.id === capturing)!;
+      const shortcut = eventToShortcut(e);
+      if (MODIFIER_SHORTCUTS.has(shortcut) && !action.momentary) return;
+      setCapturing(null);
+      if (keymap[action.id].includes(shortcut)) return;
+
+      // 已被其他操作使用时确认是否改绑
+      const users = ACTIONS.filter(a => a.id !== action.id && keymap[a.id].includes(shortcut));
+      if (users.length > 0) {
+        const names = users.map(a => a.label).join('、');
+        if (!window.confirm(`${shortcut} 已用于「${names}」，是否改为用于「${action.label}」？`)) return;
+        users.forEach(a => setShortcuts(a.id, keymap[a.id].filter(s => s !== shortcut)));
+      }
+      setShortcuts(action.id, [...keymap[action.id], shortcut]);
+    };
+
+    // 捕获阶段监听，阻止按键继续触发全局快捷键和各工具的按键处理
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [showShortcuts, capturing, keymap, setShortcuts, setShowShortcuts]);
+
+  if (!showShortcuts) return null;
+
+  const handleReset = () => {
+    if (!window.confirm('恢复所有快捷键为默认设置？')) return;
+    resetKeymap();
+  };
+
+  return (
+    <div className="shortcuts-overlay" onClick={() => setShowShortcuts(false)}>
+      <div className="shortcuts-panel" onClick={(e) => e.stopPropagation()}>
+        <div className="format-buttons">
+          <span className="color-label">快捷键</span>
+          <button className="format-button" onClick={handleReset}>恢复默认</button>
+          <button className="format-button" onClick={() => setShowShortcuts(false)}>关闭 (Esc)</button>
+        </div>
+
+        {groups.map(([group, actions]) => (
+          <div key={group} className="shortcuts-group">
+            <div className="color-label">{group}</div>
+            {actions.map(action => (
+              <div key={action.id} className="shortcut-row">
+                <span className="shortcut-label">{action.label}</span>
+                {keymap[action.id].map(shortcut => {
+                  const users = conflicts.get(shortcut);
+                  const others = users?.filter(id => id !== action.id)
+                    .map(id => ACTIONS.find(a => a.id === id)!.label).join('、');
+                  return (
+                    <span
+                      key={shortcut}
+                      className={`shortcut-key ${users ? 'conflict' : ''}`}
+                      title={users ? `与「${others}」冲突` : undefined}
+                    >
+                      {shortcut}
+                      <button
+                        className="shortcut-remove"
+                        onClick={() => setShortcuts(action.id, keymap[action.id].filter(s => s !== shortcut))}
+                        title="删除该快捷键"
+                      >
+                        ×
+                      </button>
+                    </span>
+                  );
+                })}
+                <button
+                  className={`format-button ${capturing === action.id ? 'active' : ''}`}
+                  onClick={() => setCapturing(capturing === action.id ? null : action.id)}
+                  title={action.momentary ? '按住该键时临时切换工具，松开后恢复' : undefined}
+                >
+                  {capturing === action.id ? '请按键…' : '添加'}
+                </button>
+              </div>
+            ))}
+          </div>
+        ))}
+
+        <div className="color-label">快捷键保存在浏览器中；在输入框中输入文字时不触发快捷键</div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import { useMemo } from 'react';
+import { useStore } from '../../hooks/useStore';
+import { getComponentCount, getStatsSize } from '../../utils/stats';
+
+// 最多列出的颜色数量
+const MAX_LISTED_COLORS = 12;
+
+// 保留两位小数
+const round = (n: number) => +n.toFixed(2);
+
+// 模型统计面板 - 数量、尺寸、体积、表面积和部件数量都随编辑增量更新
+export const StatsPanel = () => {
+  const { stats, voxelSize } = useStore();
+
+  const size = getStatsSize(stats);
+
+  // 按数量从多到少排列的颜色
+  const colors = useMemo(
+    () => Array.from(stats.colorCounts.entries()).sort((a, b) => b[1] - a[1]),
+    [stats]
+  );
+
+  return (
+    <div className="import-export">
+      <div className="color-label">模型统计</div>
+      <div>体素数量: {stats.count}</div>
+      <div>
+        尺寸: {size ? size.map(n => round(n * voxelSize)).join(' × ') : 0} mm
+      </div>
+      <div>体积: {round(stats.count * voxelSize ** 3)} mm³</div>
+      <div>表面积: {round(stats.exposedFaces * voxelSize ** 2)} mm²</div>
+      <div>部件数量: {getComponentCount(stats)}</div>
+      <div className="color-swatches">
+        {colors.slice(0, MAX_LISTED_COLORS).map(([color, count]) => (
+          <span key={color} className="color-option" title={color}>
+            <span className="color-swatch" style={{ backgroundColor: color }} />
+            {count}
+          </span>
+        ))}
+        {colors.length > MAX_LISTED_COLORS && <span className="color-label">等 {colors.length} 种颜色</span>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import { useStore } from '../../hooks/useStore';
+import { SYMMETRY_AXES, SymmetryAxis, SymmetryOnPlane, snapPlaneCoord } from '../../utils/symmetry';
+import { getCellBounds } from '../../utils/selection';
+
+// 对称面板 - 开关各轴对称、放置对称面，以及一次性镜像模型或选区
+export const SymmetryPanel = () => {
+  const { symmetry, selection, voxels, setSymmetry, mirrorModel, getSelectedVoxels } = useStore();
+  
+  // 切换某个轴的对称编辑
+  const toggleAxis = (axis: SymmetryAxis, enabled: boolean) => {
+    setSymmetry({ axes: { ...symmetry.axes, [axis]: enabled } });
+  };
+  
+  // 设置对称面位置（对齐到半格）
+  const setPlane = (axis: SymmetryAxis, value: number) => {
+    if (!Number.isFinite(value)) return;
+    const plane = symmetry.plane.clone();
+    plane[axis] = snapPlaneCoord(value);
+    setSymmetry({ plane });
+  };
+  
+  // 将对称面移动到选区（无选区时为整个模型）的中心
+  const centerPlane = () => {
+    const bounds = getCellBounds(selection.size > 0 ? getSelectedVoxels() : voxels);
+    if (!bounds) return;
+    const center = bounds.min.clone().add(bounds.max).multiplyScalar(0.5);
+    setSymmetry({ plane: center.set(snapPlaneCoord(center.x), snapPlaneCoord(center.y), snapPlaneCoord(center.z)) });
+  };
+  
+  return (
+    <div className="import-export">
+      <div className="color-label">对称</div>
+      
+      <div className="format-options">
+        {SYMMETRY_AXES.map(axis => (
+          <label key={axis} className="color-option">
+            <input
+              type="checkbox"
+              checked={symmetry.axes[axis]}
+              onChange={(e) => toggleAxis(axis, e.target.checked)}
+            />
+            {axis.toUpperCase()} 对称面
+            <input
+              type="number"
+              step={0.5}
+              value={symmetry.plane[axis]}
+              onChange={(e) => setPlane(axis, Number(e.target.value))}
+              title="对称面位置（格），半整数时位于两格之间"
+            />
+          </label>
+        ))}
+        <select
+          value={symmetry.onPlane}
+          onChange={(e) => setSymmetry({ onPlane: e.target.value as SymmetryOnPlane })}
+          title="对称面上的体素"
+        >
+          <option value="once">对称面上的体素只编辑一次</option>
+          <option value="skip">忽略对称面上的编辑</option>
+        </select>
+      </div>
+      
+      <div className="format-buttons">
+        <button className="format-button" onClick={centerPlane} title="对称面移动到选区或模型的中心">
+          居中
+        </button>
+        {SYMMETRY_AXES.map(axis => (
+          <button
+            key={axis}
+            className="format-button"
+            onClick={() => mirrorModel(axis)}
+            title={`将${selection.size > 0 ? '选区' : '模型'}镜像复制到 ${axis.toUpperCase()} 对称面另一侧`}
+          >
+            镜像 {axis.toUpperCase()}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
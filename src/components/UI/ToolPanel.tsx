@@ -1,17 +1,102 @@
+import { ChangeEvent, useRef, useState } from 'react';
 import { useStore } from '../../hooks/useStore';
-import { CubeIcon, MinusIcon, ArrowsUpDownIcon, RefreshIcon } from './Icons';
+import { VOXEL_SIZE_PRESETS_MM } from '../../utils/grid';
+import { parseProject, serializeProject, ProjectFileError } from '../../utils/projectFile';
+import { downloadFile } from '../../utils/download';
+import { formatShortcuts } from '../../utils/keymap';
+import { CubeIcon, MinusIcon, ArrowsUpDownIcon, RefreshIcon, UndoIcon, RedoIcon, BrushIcon, EyedropperIcon,
+  FileIcon, FolderIcon, SaveIcon, SelectIcon, BoxIcon, BucketIcon, RulerIcon, KeyboardIcon } from './Icons';
+import { ColorPalette } from './ColorPalette';
+import { ImportExportPanel } from './ImportExportPanel';
+import { ImageImportPanel } from './ImageImportPanel';
+import { SelectionPanel } from './SelectionPanel';
+import { ShapesPanel } from './ShapesPanel';
+import { SymmetryPanel } from './SymmetryPanel';
+import { SectionPanel } from './SectionPanel';
+import { StatsPanel } from './StatsPanel';
 import './ToolPanel.css';
 
 export const ToolPanel = () => {
-  const { toolMode, setToolMode, resetWorld } = useStore();
+  const { toolMode, setToolMode, resetWorld, undo, redo, canUndo, canRedo, voxelSize, setVoxelSize,
+    getProjectData, loadProject, newProject, keymap, setShowShortcuts } = useStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  
+  // 是否使用自定义体素尺寸
+  const [customSize, setCustomSize] = useState(!VOXEL_SIZE_PRESETS_MM.includes(voxelSize));
+  
+  // 新建项目 - 有未保存的编辑时先确认
+  const handleNew = () => {
+    if (canUndo && !window.confirm('新建项目将丢弃当前模型，是否继续？')) return;
+    newProject();
+    setCustomSize(false);
+  };
+  
+  // 保存项目为 JSON 文件
+  const handleSave = () => {
+    downloadFile(serializeProject(getProjectData()), 'voxel-project.json', 'application/json');
+  };
+  
+  // 打开项目文件 - 完整校验通过后才替换当前项目
+  const handleOpen = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // 清空选择，保证再次选择同一个文件也能触发
+    e.target.value = '';
+    if (!file) return;
+    if (canUndo && !window.confirm('打开项目将丢弃当前模型，是否继续？')) return;
+    
+    try {
+      const project = parseProject(await file.text());
+      loadProject(project);
+      setCustomSize(!VOXEL_SIZE_PRESETS_MM.includes(project.voxelSize));
+    } catch (error) {
+      console.error("打开项目出错:", error);
+      const message = error instanceof ProjectFileError ? error.message : '读取文件失败';
+      window.alert(`无法打开 "${file.name}": ${message}`);
+    }
+  };
+  
+  // 切换体素尺寸预设
+  const handleSizePresetChange = (value: string) => {
+    if (value === 'custom') {
+      setCustomSize(true);
+      return;
+    }
+    setCustomSize(false);
+    setVoxelSize(Number(value));
+  };
   
   return (
     <div className="tool-panel">
+      <div className="tool-group">
+        <button className="tool-button" onClick={handleNew} title="新建项目">
+          <FileIcon />
+          <span>新建</span>
+        </button>
+        
+        <button className="tool-button" onClick={() => fileInputRef.current?.click()} title="打开项目">
+          <FolderIcon />
+          <span>打开</span>
+        </button>
+        
+        <button className="tool-button" onClick={handleSave} title="保存项目">
+          <SaveIcon />
+          <span>保存</span>
+        </button>
+        
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          style={{ display: 'none' }}
+          onChange={handleOpen}
+        />
+      </div>
+      
       <div className="tool-group">
         <button 
           className={`tool-button ${toolMode === 'add' ? 'active' : ''}`}
           onClick={() => setToolMode('add')}
-          title="添加方块 (A)"
+          title={`添加方块 (${formatShortcuts(keymap, 'tool.add')})`}
         >
           <CubeIcon />
           <span>添加</span>
@@ -20,7 +105,7 @@ export const ToolPanel = () => {
         <button 
           className={`tool-button ${toolMode === 'remove' ? 'active' : ''}`}
           onClick={() => setToolMode('remove')}
-          title="删除方块 (D)"
+          title={`删除方块 (${formatShortcuts(keymap, 'tool.remove')})`}
         >
           <MinusIcon />
           <span>删除</span>
@@ -29,14 +114,98 @@ export const ToolPanel = () => {
         <button 
           className={`tool-button ${toolMode === 'pushpull' ? 'active' : ''}`}
           onClick={() => setToolMode('pushpull')}
-          title="推拉 (P)"
+          title={`推拉 (${formatShortcuts(keymap, 'tool.pushpull')})`}
         >
           <ArrowsUpDownIcon />
           <span>推拉</span>
         </button>
+        
+        <button 
+          className={`tool-button ${toolMode === 'paint' ? 'active' : ''}`}
+          onClick={() => setToolMode('paint')}
+          title={`上色 (${formatShortcuts(keymap, 'tool.paint')})`}
+        >
+          <BrushIcon />
+          <span>上色</span>
+        </button>
+        
+        <button 
+          className={`tool-button ${toolMode === 'eyedropper' ? 'active' : ''}`}
+          onClick={() => setToolMode('eyedropper')}
+          title={`吸管 (${formatShortcuts(keymap, 'tool.eyedropper')})`}
+        >
+          <EyedropperIcon />
+          <span>吸管</span>
+        </button>
+        
+        <button 
+          className={`tool-button ${toolMode === 'fill' ? 'active' : ''}`}
+          onClick={() => setToolMode('fill')}
+          title={`油漆桶 (${formatShortcuts(keymap, 'tool.fill')})`}
+        >
+          <BucketIcon />
+          <span>油漆桶</span>
+        </button>
+        
+        <button 
+          className={`tool-button ${toolMode === 'select' ? 'active' : ''}`}
+          onClick={() => setToolMode('select')}
+          title={`选择 (${formatShortcuts(keymap, 'tool.select')})`}
+        >
+          <SelectIcon />
+          <span>选择</span>
+        </button>
+        
+        <button 
+          className={`tool-button ${toolMode === 'box' ? 'active' : ''}`}
+          onClick={() => setToolMode('box')}
+          title={`长方体 (${formatShortcuts(keymap, 'tool.box')})`}
+        >
+          <BoxIcon />
+          <span>长方体</span>
+        </button>
+        
+        <button 
+          className={`tool-button ${toolMode === 'measure' ? 'active' : ''}`}
+          onClick={() => setToolMode('measure')}
+          title={`测量 (${formatShortcuts(keymap, 'tool.measure')})`}
+        >
+          <RulerIcon />
+          <span>测量</span>
+        </button>
       </div>
       
+      {toolMode === 'select' && <SelectionPanel />}
+      
+      <ColorPalette />
+      
+      <SymmetryPanel />
+      
+      <SectionPanel />
+      
+      <StatsPanel />
+      
       <div className="tool-group">
+        <button 
+          className="tool-button"
+          onClick={undo}
+          disabled={!canUndo}
+          title={`撤销 (${formatShortcuts(keymap, 'edit.undo')})`}
+        >
+          <UndoIcon />
+          <span>撤销</span>
+        </button>
+        
+        <button 
+          className="tool-button"
+          onClick={redo}
+          disabled={!canRedo}
+          title={`重做 (${formatShortcuts(keymap, 'edit.redo')})`}
+        >
+          <RedoIcon />
+          <span>重做</span>
+        </button>
+        
         <button 
           className="tool-button"
           onClick={resetWorld}
@@ -45,14 +214,61 @@ export const ToolPanel = () => {
           <RefreshIcon />
           <span>重置</span>
         </button>
+        
+        <button 
+          className="tool-button"
+          onClick={() => setShowShortcuts(true)}
+          title={`快捷键速查表和设置 (${formatShortcuts(keymap, 'view.shortcuts')})`}
+        >
+          <KeyboardIcon />
+          <span>快捷键</span>
+        </button>
+      </div>
+      
+      <ImportExportPanel />
+      
+      <ImageImportPanel />
+      
+      <ShapesPanel />
+      
+      <div className="tool-setting">
+        <label htmlFor="voxel-size">格点大小</label>
+        <select
+          id="voxel-size"
+          value={customSize ? 'custom' : String(voxelSize)}
+          onChange={(e) => handleSizePresetChange(e.target.value)}
+        >
+          {VOXEL_SIZE_PRESETS_MM.map(size => (
+            <option key={size} value={size}>{size}mm</option>
+          ))}
+          <option value="custom">自定义</option>
+        </select>
+        {customSize && (
+          <input
+            type="number"
+            min={0.01}
+            step={0.1}
+            defaultValue={voxelSize}
+            onChange={(e) => setVoxelSize(Number(e.target.value))}
+          />
+        )}
       </div>
       
       <div className="tool-info">
         <p>提示: 使用鼠标右键旋转视图</p>
         <p>使用鼠标中键或Shift+右键平移视图</p>
-        <p>按住 Alt/Option 键可临时切换到删除模式</p>
-        <p>格点大小: 3mm</p>
-        <p>捕捉精度: 1.5mm</p>
+        <p>按住 {formatShortcuts(keymap, 'tool.momentaryRemove')} 键可临时切换到删除模式，松开后恢复之前的工具</p>
+        <p>添加或上色时按住 Ctrl/Cmd 点击可吸取颜色</p>
+        <p>推拉时按住 Shift 可推拉整个平面</p>
+        <p>推拉时可键入层数或毫米数（如 12mm），回车确认，Esc 取消</p>
+        <p>油漆桶填充相连的同色同材质体素，按住 Shift 只填充所点击平面上的表面</p>
+        <p>上色和油漆桶同时应用当前颜色和当前材质，吸管同时吸取颜色和材质</p>
+        <p>长方体: 在面上拖出矩形，移动鼠标设置高度后点击确认，按住 Alt 挖除</p>
+        <p>测量: 依次点击两个体素面显示距离，Esc 清除</p>
+        <p>剖切视图只显示剖切面一侧的体素，编辑工具只作用于可见体素，可逐层编辑模型内部</p>
+        <p>选择模式下拖动鼠标框选，Shift 加选；方向键移动选区，Shift+↑/↓ 上下移动</p>
+        <p>格点大小: {voxelSize}mm</p>
+        <p>捕捉精度: {voxelSize / 2}mm</p>
       </div>
     </div>
   );
@@ -0,0 +1,232 @@
+import { memo, useCallback, useEffect, useMemo } from 'react';
+import { ThreeEvent } from '@react-three/fiber';
+import { useStore, Voxel } from '../hooks/useStore';
+import { ChunkSnapshot, cellOf } from '../utils/voxelIndex';
+import { buildMaterialQuads, quadsToGeometry } from '../utils/meshing';
+import { CELL_SIZE, CELL_RENDER_SIZE, cellFromHit, cellToWorld, snapNormalToAxis } from '../utils/grid';
+import { DEFAULT_MATERIAL, VoxelMaterial, isTransparentMaterial } from '../utils/materials';
+import { getVisibleLayerIds } from '../utils/layers';
+import { getChunkClip, isCellClipped } from '../utils/section';
+
+// 单个分块 - 只在分块快照、图层可见性或材质库变化时重建合并后的网格，getCell 只返回可见的体素
+// 每种材质（自发光材质还按颜色）输出一个网格
+const VoxelChunk = memo(({ 
+  snapshot, 
+  getCell,
+  materials
+}: { 
+  snapshot: ChunkSnapshot; 
+  getCell: (cell: [number, number, number]) => Voxel | undefined;
+  materials: Map<string, VoxelMaterial>;
+}) => {
+  const groups = useMemo(() => {
+    const visible = snapshot.voxels.filter(voxel => getCell(cellOf(voxel.position)));
+    return buildMaterialQuads(visible, (x, y, z) => getCell([x, y, z]), materials).map(group => ({
+      ...group,
+      geometry: quadsToGeometry(group.quads, CELL_SIZE)
+    }));
+  }, [snapshot, getCell, materials]);
+  
+  // 网格重建或分块移除时释放旧几何体
+  useEffect(() => () => groups.forEach(group => group.geometry.dispose()), [groups]);
+  
+  return (
+    <>
+      {groups.map(({ key, material, emissiveColor, geometry }) => {
+        const transparent = isTransparentMaterial(material);
+        return (
+          <mesh
+            key={key}
+            geometry={geometry}
+            userData={{ type: 'voxel', isPreview: false }}
+            castShadow={!transparent}
+            receiveShadow
+          >
+            <meshStandardMaterial
+              vertexColors
+              roughness={material.roughness}
+              metalness={material.metalness}
+              emissive={emissiveColor ?? '#000000'}
+              emissiveIntensity={material.emissive}
+              transparent={transparent}
+              opacity={material.opacity}
+              // 透明材质不写入深度，避免遮挡其后方的体素
+              depthWrite={!transparent}
+            />
+          </mesh>
+        );
+      })}
+    </>
+  );
+});
+
+// 悬停高亮覆盖层 - 在悬停的体素外侧绘制一个与工具模式对应颜色的方块
+export const HoverHighlight = () => {
+  const { hoveredVoxel, toolMode, activeColor } = useStore();
+  
+  // 长方体工具自行绘制虚影预览
+  if (!hoveredVoxel || toolMode === 'box') return null;
+  
+  let color = '#ffff00'; // 默认高亮黄色
+  if (toolMode === 'add') {
+    color = '#00ff00'; // 添加模式时高亮绿色
+  } else if (toolMode === 'remove') {
+    color = '#ff0000'; // 删除模式时高亮红色
+  } else if (toolMode === 'paint' || toolMode === 'fill') {
+    color = activeColor; // 上色和油漆桶模式时预览当前颜色
+  }
+  
+  return (
+    <mesh position={cellToWorld(hoveredVoxel.position)} raycast={() => null}>
+      <boxGeometry args={[CELL_RENDER_SIZE, CELL_RENDER_SIZE, CELL_RENDER_SIZE]} />
+      <meshStandardMaterial
+        color={color}
+        transparent
+        opacity={0.6}
+        roughness={DEFAULT_MATERIAL.roughness}
+        metalness={DEFAULT_MATERIAL.metalness}
+        polygonOffset
+        polygonOffsetFactor={-1}
+      />
+    </mesh>
+  );
+};
+
+// 分块体素渲染器 - 每个分块输出一个合并了外露面的网格，拾取通过射线交点换算格点
+export const VoxelChunks = () => {
+  const { voxelIndex, toolMode, activeColor, setHoveredVoxel, setSelectedFace, removeVoxel, paintVoxel, 
+    fillColor, fillFaceColor, sampleHoveredColor, layers, section, materials } = useStore();
+  
+  // 当前所有分块（索引每次编辑都会生成新的引用）
+  const chunkKeys = useMemo(() => voxelIndex.chunkKeys(), [voxelIndex]);
+  
+  // 隐藏图层中的体素不渲染，也不遮挡相邻体素的面；索引的方法引用在编辑间保持不变，只有可见性变化时才重建所有分块
+  const visibleLayerIds = useMemo(() => getVisibleLayerIds(layers), [layers]);
+  const allVisible = visibleLayerIds.size === layers.length;
+  const { get: getAnyCell } = voxelIndex;
+  const getVisibleCell = useCallback((cell: [number, number, number]) => {
+    const voxel = getAnyCell(cell);
+    return voxel && visibleLayerIds.has(voxel.layer ?? '') ? voxel : undefined;
+  }, [getAnyCell, visibleLayerIds]);
+  const getLayerCell = allVisible ? getAnyCell : getVisibleCell;
+  
+  // 剖切面外的格点视为空，只有跨越剖切面的分块需要随剖切面移动而重建
+  const getSectionCell = useCallback((cell: [number, number, number]) => {
+    return isCellClipped(cell, section) ? undefined : getLayerCell(cell);
+  }, [getLayerCell, section]);
+  
+  // 按 id 查找材质，材质库变化时所有分块重建
+  const materialsMap = useMemo(() => new Map(materials.map(material => [material.id, material])), [materials]);
+  
+  // 根据射线交点计算被击中的格点和面法线
+  const pickCell = useCallback((e: ThreeEvent<MouseEvent>) => {
+    if (!e.face) return null;
+    const normal = snapNormalToAxis(e.face.normal.clone().transformDirection(e.object.matrixWorld));
+    const cell = cellFromHit(e.point, normal);
+    const voxel = voxelIndex.get(cellOf(cell));
+    return voxel ? { voxel, normal } : null;
+  }, [voxelIndex]);
+  
+  // 处理指针移动 - 更新悬停的体素和选中的面
+  const handlePointerMove = useCallback((e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    const hit = pickCell(e);
+    if (!hit) return;
+    
+    // 只有悬停的格点或面发生变化时才更新全局状态
+    const { hoveredVoxel, selectedFace } = useStore.getState();
+    if (hoveredVoxel && hoveredVoxel.position.equals(hit.voxel.position) && 
+        selectedFace && selectedFace.normal.equals(hit.normal)) {
+      return;
+    }
+    
+    try {
+      setHoveredVoxel({ 
+        position: hit.voxel.position.clone(),
+        color: hit.voxel.color 
+      });
+      setSelectedFace({ normal: hit.normal });
+    } catch (error) {
+      console.error("设置悬停状态出错:", error);
+    }
+  }, [pickCell, setHoveredVoxel, setSelectedFace]);
+  
+  // 处理指针离开事件 - 清除全局悬停状态
+  const handlePointerLeave = useCallback(() => {
+    try {
+      setHoveredVoxel(null);
+      setSelectedFace(null);
+    } catch (error) {
+      console.error("清除悬停状态出错:", error);
+    }
+  }, [setHoveredVoxel, setSelectedFace]);
+  
+  // 处理点击事件 - 删除模式时移除被点击的体素，上色和油漆桶模式时重新着色
+  const handleClick = useCallback((e: ThreeEvent<MouseEvent>) => {
+    // 吸管模式，或在添加/上色模式下按住 Ctrl/Cmd 时，吸取悬停体素的颜色
+    const sampleModifier = e.nativeEvent.ctrlKey || e.nativeEvent.metaKey;
+    const canSample = toolMode === 'add' || toolMode === 'paint' || toolMode === 'fill';
+    if (toolMode === 'eyedropper' || (canSample && sampleModifier)) {
+      e.stopPropagation();
+      sampleHoveredColor();
+      return;
+    }
+    
+    if (toolMode === 'paint') {
+      e.stopPropagation();
+      const hit = pickCell(e);
+      if (hit) {
+        paintVoxel(hit.voxel.position, activeColor);
+      }
+      return;
+    }
+    
+    // 油漆桶：重新着色相连的同色区域，按住 Shift 时只填充所点击平面上的表面
+    if (toolMode === 'fill') {
+      e.stopPropagation();
+      const hit = pickCell(e);
+      if (!hit) return;
+      if (e.nativeEvent.shiftKey) {
+        fillFaceColor(hit.voxel.position, hit.normal, activeColor);
+      } else {
+        fillColor(hit.voxel.position, activeColor);
+      }
+      return;
+    }
+    
+    // 删除模式时停止传播，阻止事件冒泡
+    if (toolMode === 'remove') {
+      e.stopPropagation();
+      const hit = pickCell(e);
+      if (!hit) return;
+      try {
+        removeVoxel(hit.voxel.position);
+      } catch (error) {
+        console.error("移除体素出错:", error);
+      }
+    }
+    
+    // 添加模式下不阻止事件冒泡，让事件传递到VoxelWorld
+  }, [toolMode, pickCell, removeVoxel, paintVoxel, fillColor, fillFaceColor, activeColor, sampleHoveredColor]);
+  
+  return (
+    <group
+      onPointerMove={handlePointerMove}
+      onPointerLeave={handlePointerLeave}
+      onClick={handleClick}
+    >
+      {chunkKeys.map(key => {
+        const snapshot = voxelIndex.chunk(key);
+        const clip = getChunkClip(key, section);
+        return snapshot && clip !== 'all' ? (
+          <VoxelChunk
+            key={key}
+            snapshot={snapshot}
+            getCell={clip === 'none' ? getLayerCell : getSectionCell}
+            materials={materialsMap}
+          />
+        ) : null;
+      })}
+    </group>
+  );
+};
@@ -1,26 +1,62 @@
-import { useRef, useState, useEffect, useMemo, useCallback } from 'react';
+import { useRef, useState, useEffect, useLayoutEffect, useMemo, useCallback } from 'react';
 import { useThree } from '@react-three/fiber';
-import { useStore } from '../hooks/useStore';
+import { Html } from '@react-three/drei';
+import { useStore, type Voxel as VoxelData } from '../hooks/useStore';
 import { Voxel } from './Voxel';
+import { VoxelChunks, HoverHighlight } from './VoxelChunks';
+import { PreviewVoxels } from './PreviewVoxels';
+import { SelectionTool } from './SelectionTool';
+import { BoxTool } from './BoxTool';
+import { MeasureTool } from './MeasureTool';
+import { cellOf, findExposedVoxelsInPlane, findConnectedExposedRegion } from '../utils/voxelIndex';
+import { pickVoxelFace } from '../utils/picking';
+import { isCellClipped } from '../utils/section';
+import { isTypingTarget } from '../utils/keymap';
+import { CELL_SIZE, CELL_HALF, CELL_RENDER_SIZE, cellToWorld, parseLayerInput } from '../utils/grid';
 import * as THREE from 'three';
 
-// 定义体素类型
-interface VoxelType {
-  position: THREE.Vector3;
-  color: string;
-}
-
-// 定义推拉状态类型
+// 定义推拉状态类型 - 位置均为格点坐标，distance 为推拉的层数
 type PushPullStateType = {
   active: boolean;
   startPosition: THREE.Vector3;
   normal: THREE.Vector3;
   distance: number;
   faceCenter: THREE.Vector3;
-  selectedVoxels: { position: THREE.Vector3, color: string }[];
+  // 推拉的源体素，保留图层和材质以便新体素继承
+  selectedVoxels: VoxelData[];
   highlightedFaces: { position: THREE.Vector3, normal: THREE.Vector3, color: string }[];
 };
 
+// 未激活的推拉状态
+const createIdlePushPullState = (): PushPullStateType => ({
+  active: false,
+  startPosition: new THREE.Vector3(),
+  normal: new THREE.Vector3(),
+  distance: 0,
+  faceCenter: new THREE.Vector3(),
+  selectedVoxels: [],
+  highlightedFaces: []
+});
+
+// 计算推拉源体素需要高亮的面（每个体素一个）和这些面的几何中心
+const describePushPullFaces = (voxels: VoxelData[], normal: THREE.Vector3) => {
+  const faces = voxels.map(voxel => ({
+    position: voxel.position.clone(),
+    normal: normal.clone(),
+    color: voxel.color
+  }));
+  
+  const center = new THREE.Vector3();
+  if (faces.length > 0) {
+    faces.forEach(face => {
+      center.add(face.position);
+    });
+    center.divideScalar(faces.length);
+  }
+  
+  return { center, faces };
+};
+
 // 控制杆组件 - 优化性能，减少对象创建
 const PushPullHandle = ({ 
   position, 
@@ -37,6 +73,11 @@ const PushPullHandle = ({
   const isDragging = useRef(false);
   const startPosition = useRef(new THREE.Vector3());
   const lastDistance = useRef(distance);
+  const { camera, gl } = useThree();
+  
+  // 拖动开始时的层数，以及法线方向上推拉一层对应的屏幕位移（像素）
+  const dragStartDistance = useRef(distance);
+  const screenStep = useRef(new THREE.Vector2());
   
   // 复用向量对象以减少GC压力
   const tempVector = useMemo(() => new THREE.Vector3(), []);
@@ -83,7 +124,7 @@ const PushPullHandle = ({
     }
     
     // 计算推拉杆的位置 - 始终保持在所选面的中心
-    handlePosition.copy(position);
+    cellToWorld(position, handlePosition);
     
     // 如果groupRef已经存在，直接更新位置
     if (groupRef.current) {
@@ -100,13 +141,24 @@ const PushPullHandle = ({
     console.log("控制杆：鼠标按下");
     isDragging.current = true;
     startPosition.current.set(e.clientX, e.clientY, 0);
+    dragStartDistance.current = lastDistance.current;
+    
+    // 把面中心和沿法线一层之外的点投影到屏幕上，得到法线在屏幕上的方向和每层的像素长度
+    const rect = gl.domElement.getBoundingClientRect();
+    const toScreen = (world: THREE.Vector3) => {
+      const ndc = world.project(camera);
+      return new THREE.Vector2((ndc.x + 1) / 2 * rect.width, (1 - ndc.y) / 2 * rect.height);
+    };
+    const origin = cellToWorld(position);
+    const tip = origin.clone().addScaledVector(normal, CELL_SIZE);
+    screenStep.current.copy(toScreen(tip).sub(toScreen(origin)));
     document.body.style.cursor = 'grabbing';
     
     // 捕获鼠标事件
     if (e.target) {
       (e.target as HTMLElement).setPointerCapture(e.pointerId);
     }
-  }, []);
+  }, [camera, gl, position, normal]);
   
   const handlePointerUp = useCallback((e: any) => {
     if (isDragging.current) {
@@ -128,21 +180,13 @@ const PushPullHandle = ({
     const handleGlobalMouseMove = (e: MouseEvent) => {
       if (!isDragging.current) return;
       
-      // 计算屏幕空间的移动距离
-      const moveY = e.clientY - startPosition.current.y;
-      
-      // 根据法线方向确定正负号，向上拖动应该增加距离
-      const directionMultiplier = -1;
+      // 法线几乎正对相机时无法在屏幕上拖动
+      const step = screenStep.current;
+      if (step.lengthSq() < 1) return;
       
-      // 增加灵敏度使拖动更容易
-      const sensitivity = 0.02;
-      
-      // 计算距离变化量
-      const distanceDelta = moveY * sensitivity * directionMultiplier;
-      const newDistance = lastDistance.current + distanceDelta;
-      
-      // 量化到最近的0.3单位（体素大小）
-      const quantizedDistance = Math.round(newDistance / 0.3) * 0.3;
+      // 鼠标位移投影到法线的屏幕方向上，换算为层数并量化到整数层
+      const delta = new THREE.Vector2(e.clientX - startPosition.current.x, e.clientY - startPosition.current.y);
+      const quantizedDistance = dragStartDistance.current + Math.round(delta.dot(step) / step.lengthSq());
       
       // 只有当量化后的距离发生变化时才更新
       if (quantizedDistance !== lastDistance.current) {
@@ -150,9 +194,6 @@ const PushPullHandle = ({
         onUpdate(quantizedDistance);
         console.log(`全局拖动：推拉距离更新为: ${quantizedDistance}`);
       }
-      
-      // 更新起始位置
-      startPosition.current.set(e.clientX, e.clientY, 0);
     };
     
     // 处理全局鼠标释放
@@ -202,15 +243,16 @@ const PushPullHandle = ({
   const arrowColor = isHovered ? "#ff5500" : "#ff3300";
   
   // 控制杆样式根据距离调整
-  const cylinderLength = Math.max(0.5, Math.abs(distance) + 0.3);
+  const length = distance * CELL_SIZE;
+  const cylinderLength = Math.max(0.5, Math.abs(length) + CELL_SIZE);
   
   return (
     <group ref={groupRef}>
       <group rotation={handleRotation}>
         {/* 增加一个大型但半透明的碰撞区域，使拖动更容易 */}
         <mesh 
-          position={[0, distance === 0 ? 0.3 : distance / 2, 0]}
-          scale={[0.5, Math.max(0.5, Math.abs(distance) + 0.5), 0.5]}
+          position={[0, distance === 0 ? CELL_SIZE : length / 2, 0]}
+          scale={[0.5, Math.max(0.5, Math.abs(length) + 0.5), 0.5]}
           onPointerDown={handlePointerDown}
           onPointerUp={handlePointerUp}
           onPointerOver={handlePointerOver}
@@ -222,7 +264,7 @@ const PushPullHandle = ({
         
         {/* 控制杆箭头 - 始终显示在杆的前端 */}
         <mesh 
-          position={[0, distance === 0 ? 0.6 : distance + 0.3, 0]}
+          position={[0, distance === 0 ? CELL_SIZE * 2 : length + CELL_SIZE, 0]}
           onPointerDown={handlePointerDown}
           onPointerUp={handlePointerUp}
           onPointerOver={handlePointerOver}
@@ -234,7 +276,7 @@ const PushPullHandle = ({
         
         {/* 控制杆柄 - 长度随距离变化 */}
         <mesh 
-          position={[0, distance === 0 ? 0.3 : distance / 2 + 0.15, 0]}
+          position={[0, distance === 0 ? CELL_SIZE : length / 2 + CELL_HALF, 0]}
           onPointerDown={handlePointerDown}
           onPointerUp={handlePointerUp}
           onPointerOver={handlePointerOver}
@@ -259,69 +301,52 @@ const PushPullHandle = ({
   );
 };
 
-// 修改FaceHighlight组件，确保它准确高亮面的整个区域
-const FaceHighlight = ({ 
-  position, 
+// 面高亮组件 - 使用实例化网格一次绘制同一法线方向上的所有高亮面
+const FaceHighlights = ({ 
+  faces, 
   normal, 
   color = "#ffff00", 
   opacity = 0.3 
 }: { 
-  position: THREE.Vector3;
+  faces: { position: THREE.Vector3 }[];
   normal: THREE.Vector3;
   color?: string;
   opacity?: number;
 }) => {
-  // 确定要渲染的面的旋转，使用四元数计算
-  const rotation = useMemo(() => {
-    // 创建一个四元数从 Z 方向（平面默认法线）旋转到目标法线方向
-    const quaternion = new THREE.Quaternion();
-    const zAxis = new THREE.Vector3(0, 0, 1);
-    
-    // 检查法线是否与Z轴平行
-    if (Math.abs(normal.z) > 0.999) {
-      if (normal.z > 0) {
-        // 正Z轴，不需要旋转
-        quaternion.setFromAxisAngle(new THREE.Vector3(1, 0, 0), 0);
-      } else {
-        // 负Z轴，旋转180度
-        quaternion.setFromAxisAngle(new THREE.Vector3(1, 0, 0), Math.PI);
-      }
-    } else {
-      // 计算旋转轴（法线和Z轴的叉积）
-      const rotationAxis = new THREE.Vector3().crossVectors(zAxis, normal).normalize();
-      
-      // 如果旋转轴接近零向量（法线与Z轴平行），使用X轴作为旋转轴
-      if (rotationAxis.lengthSq() < 0.001) {
-        rotationAxis.set(1, 0, 0);
-      }
-      
-      // 计算旋转角度
-      const angle = Math.acos(zAxis.dot(normal));
-      
-      // 设置四元数
-      quaternion.setFromAxisAngle(rotationAxis, angle);
-    }
-    
-    // 将四元数转换为欧拉角
-    const euler = new THREE.Euler().setFromQuaternion(quaternion);
-    
-    return [euler.x, euler.y, euler.z] as [number, number, number];
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  
+  // 确定要渲染的面的旋转 - 从 Z 方向（平面默认法线）旋转到目标法线方向
+  const quaternion = useMemo(() => {
+    return new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 0, 1), normal);
   }, [normal]);
   
-  // 偏移距离，确保高亮面在体块表面的外侧一点点
-  const offset = 0.002;
+  // 更新每个高亮面的位置：体块中心沿法线偏移半个格点再向外一点点，确保高亮面在体块表面外侧
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    
+    const offset = 0.002;
+    const matrix = new THREE.Matrix4();
+    const facePosition = new THREE.Vector3();
+    const unitScale = new THREE.Vector3(1, 1, 1);
+    faces.forEach((face, i) => {
+      cellToWorld(face.position, facePosition).addScaledVector(normal, CELL_HALF + offset);
+      matrix.compose(facePosition, quaternion, unitScale);
+      mesh.setMatrixAt(i, matrix);
+    });
+    mesh.instanceMatrix.needsUpdate = true;
+    mesh.computeBoundingSphere();
+  }, [faces, normal, quaternion]);
   
-  // 面的位置，基于体块位置和法向量方向
-  const facePosition = position.clone().add(
-    normal.clone().multiplyScalar(0.15 + offset)
-  );
+  if (faces.length === 0) return null;
   
   return (
-    <mesh
-      position={facePosition}
-      rotation={rotation}
+    <instancedMesh
+      ref={meshRef}
+      args={[undefined, undefined, faces.length]}
+      raycast={() => null}
     >
-      <planeGeometry args={[0.301, 0.301]} />
+      <planeGeometry args={[CELL_RENDER_SIZE, CELL_RENDER_SIZE]} />
       <meshBasicMaterial 
         color={color} 
         transparent={true} 
@@ -329,16 +354,23 @@ const FaceHighlight = ({
         side={THREE.DoubleSide}
         depthTest={false}
       />
-    </mesh>
+    </instancedMesh>
   );
 };
 
 export const VoxelWorld = () => {
   const groupRef = useRef<THREE.Group>(null);
-  const { voxels, hoveredVoxel: storeHoveredVoxel, selectedFace, toolMode, 
-    pushPullFace: _storePushPullFace, 
-    addVoxel, setHoveredVoxel, setSelectedFace, removeVoxel } = useStore();
-  const { camera, raycaster, mouse, scene } = useThree();
+  const { voxelIndex, hoveredVoxel: storeHoveredVoxel, selectedFace, toolMode, 
+    pushPullVoxels, addVoxel, setHoveredVoxel, setSelectedFace, beginBatch, endBatch,
+    activeColor, importPreview, voxelSize, layers, activeLayer, isVoxelEditable, section,
+    materials, activeMaterial } = useStore();
+  
+  // 当前图层隐藏或锁定时不能添加体素
+  const canAddToActiveLayer = useMemo(() => {
+    const layer = layers.find(l => l.id === activeLayer);
+    return !!layer && layer.visible && !layer.locked;
+  }, [layers, activeLayer]);
+  const { camera, raycaster, mouse, scene, gl } = useThree();
   
   // 创建临时的体素预览
   const [tempVoxel, setTempVoxel] = useState<{
@@ -353,15 +385,16 @@ export const VoxelWorld = () => {
   } | null>(null);
   
   // 修改推拉状态，使用正确的类型
-  const [pushPullState, setPushPullState] = useState<PushPullStateType>({
-    active: false,
-    startPosition: new THREE.Vector3(),
-    normal: new THREE.Vector3(),
-    distance: 0,
-    faceCenter: new THREE.Vector3(),
-    selectedVoxels: [],
-    highlightedFaces: []
-  });
+  const [pushPullState, setPushPullState] = useState<PushPullStateType>(createIdlePushPullState);
+  
+  // 推拉状态的最新值，供拖动过程中同步读取
+  const pushPullStateRef = useRef(pushPullState);
+  useEffect(() => {
+    pushPullStateRef.current = pushPullState;
+  }, [pushPullState]);
+  
+  // 推拉激活时键入的精确距离（层数，或带 mm 后缀的毫米数）
+  const [typedDistance, setTypedDistance] = useState('');
 
   // 已确认使用的捕捉到网格的状态
   const [_gridSnapped, setGridSnapped] = useState(false);
@@ -374,98 +407,53 @@ export const VoxelWorld = () => {
       // 设置射线从相机位置发射，方向通过鼠标位置计算
       raycaster.setFromCamera(mouse, camera);
       
-      // 创建一个临时数组，包含所有非预览的体素物体用于射线检测
-      const voxelMeshes: THREE.Object3D[] = [];
-      scene.traverse((object) => {
-        if (object.userData?.type === 'voxel' && !object.userData?.isPreview) {
-          voxelMeshes.push(object);
-        }
-      });
-      
       // 检查是否需要清除预览
       let shouldClearPreview = true;
       
-      // 使用射线与体素相交检测
-      const intersects = raycaster.intersectObjects(voxelMeshes, false);
+      // 检测鼠标下最近的体素面
+      const hit = pickVoxelFace(raycaster, scene, voxelIndex);
       
-      // 如果有相交点
-      if (intersects.length > 0) {
-        const intersection = intersects[0]; // 获取第一个相交点（最近的）
-        const voxelMesh = intersection.object as THREE.Mesh;
-        const face = intersection.face;
+      if (hit && canAddToActiveLayer) {
+        const { cell: voxelPosition, normal: normalizedNormal, voxel: hitVoxel } = hit;
         
-        if (face && voxelMesh) {
-          // 获取面的法向量并转换为世界坐标
-          const faceNormal = face.normal.clone();
-          faceNormal.transformDirection(voxelMesh.matrixWorld);
-          
-          // 量化为主轴方向
-          const absX = Math.abs(faceNormal.x);
-          const absY = Math.abs(faceNormal.y);
-          const absZ = Math.abs(faceNormal.z);
-          
-          const normalizedNormal = new THREE.Vector3();
-          if (absX > absY && absX > absZ) {
-            normalizedNormal.set(faceNormal.x > 0 ? 1 : -1, 0, 0);
-          } else if (absY > absX && absY > absZ) {
-            normalizedNormal.set(0, faceNormal.y > 0 ? 1 : -1, 0);
-          } else {
-            normalizedNormal.set(0, 0, faceNormal.z > 0 ? 1 : -1);
-          }
-          
-          // 获取相交体素的位置
-          const voxelPosition = new THREE.Vector3();
-          voxelMesh.getWorldPosition(voxelPosition);
-          voxelPosition.x = Math.round(voxelPosition.x / 0.3) * 0.3;
-          voxelPosition.y = Math.round(voxelPosition.y / 0.3) * 0.3;
-          voxelPosition.z = Math.round(voxelPosition.z / 0.3) * 0.3;
-          
-          // 计算新体素的位置 = 当前体素位置 + 法向量 * 体素尺寸
-          const newPosition = voxelPosition.clone().add(
-            normalizedNormal.clone().multiplyScalar(0.3)
-          );
+        // 计算新体素的位置 = 当前体素位置 + 法向量
+        const newPosition = voxelPosition.clone().add(normalizedNormal);
+        
+        // 检查新位置是否已有体素，剖切面外的格点不能添加
+        const exists = voxelIndex.has(cellOf(newPosition));
+        const clipped = isCellClipped(cellOf(newPosition), section);
+        
+        // 如果位置空闲，创建预览体素
+        if (hitVoxel && !exists && !clipped) {
+          // 找到了有效的预览位置，不需要清除
+          shouldClearPreview = false;
           
-          // 检查新位置是否已有体素
-          const exists = voxels.some(voxel => 
-            Math.abs(voxel.position.x - newPosition.x) < 0.01 && 
-            Math.abs(voxel.position.y - newPosition.y) < 0.01 && 
-            Math.abs(voxel.position.z - newPosition.z) < 0.01
-          );
+          // 如果位置或法线与当前预览不同，则更新预览
+          const shouldUpdatePreview = !tempVoxel || 
+            !tempVoxel.position.equals(newPosition) || 
+            (localHovered && !localHovered.normal.equals(normalizedNormal));
           
-          // 如果位置空闲，创建预览体素
-          if (!exists) {
-            // 找到了有效的预览位置，不需要清除
-            shouldClearPreview = false;
+          if (shouldUpdatePreview) {
+            setTempVoxel({
+              position: newPosition,
+              color: '#00ff00' // 绿色预览
+            });
             
-            // 如果位置或法线与当前预览不同，则更新预览
-            const shouldUpdatePreview = !tempVoxel || 
-              !tempVoxel.position.equals(newPosition) || 
-              (localHovered && !localHovered.normal.equals(normalizedNormal));
+            // 更新本地悬停状态
+            setLocalHovered({
+              position: voxelPosition,
+              normal: normalizedNormal
+            });
             
-            if (shouldUpdatePreview) {
-              setTempVoxel({
-                position: newPosition,
-                color: '#00ff00' // 绿色预览
-              });
-              
-              // 更新本地悬停状态
-              setLocalHovered({
-                position: voxelPosition,
-                normal: normalizedNormal
-              });
-              
-              // 同步到全局状态
-              setHoveredVoxel({ 
-                position: voxelPosition.clone(),
-                color: voxelMesh.material instanceof THREE.MeshStandardMaterial ? 
-                    '#' + voxelMesh.material.color.getHexString() : 
-                    '#1e88e5'
-              });
-              setSelectedFace({ normal: normalizedNormal });
-              
-              setGridSnapped(true);
-              return true;
-            }
+            // 同步到全局状态
+            setHoveredVoxel({ 
+              position: voxelPosition.clone(),
+              color: hitVoxel.color
+            });
+            setSelectedFace({ normal: normalizedNormal });
+            
+            setGridSnapped(true);
+            return true;
           }
         }
       }
@@ -488,7 +476,8 @@ export const VoxelWorld = () => {
     }
     
     return false;
-  }, [raycaster, mouse, camera, scene, voxels, tempVoxel, localHovered, storeHoveredVoxel, selectedFace, setHoveredVoxel, setSelectedFace]);
+  }, [raycaster, mouse, camera, scene, voxelIndex, tempVoxel, localHovered, storeHoveredVoxel, selectedFace, setHoveredVoxel, setSelectedFace,
+    canAddToActiveLayer, section]);
 
   // 处理鼠标移动，增加网格捕捉检测
   useEffect(() => {
@@ -521,256 +510,94 @@ export const VoxelWorld = () => {
     };
   }, [toolMode, checkGridSnapping]);
   
-  // 找出同一平面的所有体素面 - 移动到组件内部
-  const findVoxelsInSamePlane = useCallback((position: THREE.Vector3, normal: THREE.Vector3) => {
-    // 计算平面方程以找到同一平面上的所有体素面
-    // 平面方程: ax + by + cz + d = 0
-    const a = normal.x;
-    const b = normal.y;
-    const c = normal.z;
-    const d = -(a * position.x + b * position.y + c * position.z);
-    
-    // 找出在同一平面上的所有体素
-    const voxelsInPlane: VoxelType[] = [];
-    const facesInPlane: {position: THREE.Vector3, normal: THREE.Vector3, color: string}[] = [];
-    
-    // 使用Set来跟踪已处理过的位置，避免重复
-    const processedPositions = new Set<string>();
-    
-    voxels.forEach(voxel => {
-      // 计算体素中心到平面的距离
-      const distToPlane = Math.abs(a * voxel.position.x + b * voxel.position.y + c * voxel.position.z + d);
-      
-      // 如果体素与平面距离足够近
-      if (distToPlane < 0.01) {
-        // 确定要检查的面法向量
-        const faceNormal = normal.clone();
-        
-        // 计算面的中心位置
-        const facePosition = voxel.position.clone();
-        
-        // 格式化位置为字符串用于检查重复
-        const posKey = `${facePosition.x.toFixed(2)},${facePosition.y.toFixed(2)},${facePosition.z.toFixed(2)},${faceNormal.x.toFixed(1)},${faceNormal.y.toFixed(1)},${faceNormal.z.toFixed(1)}`;
-        
-        // 检查是否已处理过此位置
-        if (processedPositions.has(posKey)) {
-          return;
-        }
-        
-        // 检查是否有另一个体素紧贴在此面的外侧
-        // 如果没有相邻体素，则这个面是可见的，应该高亮
-        const checkPos = facePosition.clone().add(faceNormal.clone().multiplyScalar(0.3));
-        const hasNeighbor = voxels.some(v => 
-          Math.abs(v.position.x - checkPos.x) < 0.01 &&
-          Math.abs(v.position.y - checkPos.y) < 0.01 &&
-          Math.abs(v.position.z - checkPos.z) < 0.01
-        );
-        
-        if (!hasNeighbor) {
-          // 添加这个体素到同平面列表
-          voxelsInPlane.push(voxel);
-          
-          // 添加这个面到高亮列表
-          facesInPlane.push({
-            position: facePosition.clone(),
-            normal: faceNormal.clone(),
-            color: voxel.color
-          });
-          
-          // 记录此位置已处理
-          processedPositions.add(posKey);
-        }
-      }
-    });
-    
-    // 计算面的几何中心
-    const center = new THREE.Vector3();
-    if (facesInPlane.length > 0) {
-      facesInPlane.forEach(face => {
-        center.add(face.position);
-      });
-      center.divideScalar(facesInPlane.length);
-    }
-    
-    return { voxels: voxelsInPlane, center, faces: facesInPlane };
-  }, [voxels]);
+  // 按住 Shift 时推拉整个平面，否则只推拉与悬停面相连的区域
+  const [wholePlane, setWholePlane] = useState(false);
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Shift') setWholePlane(e.type === 'keydown');
+    };
+    window.addEventListener('keydown', handleKey);
+    window.addEventListener('keyup', handleKey);
+    return () => {
+      window.removeEventListener('keydown', handleKey);
+      window.removeEventListener('keyup', handleKey);
+    };
+  }, []);
+  
+  // 找出推拉的体素面：默认为同一平面上与悬停面相连的外露区域，wholePlane 时为整个平面上的外露体素
+  const findVoxelsInSamePlane = useCallback((position: THREE.Vector3, normal: THREE.Vector3, wholePlane = false) => {
+    // 隐藏或锁定图层中的面不参与推拉
+    const voxelsInPlane = wholePlane
+      ? findExposedVoxelsInPlane(voxelIndex, position, normal).filter(isVoxelEditable)
+      : findConnectedExposedRegion(voxelIndex, position, normal, isVoxelEditable);
+    
+    return { voxels: voxelsInPlane, ...describePushPullFaces(voxelsInPlane, normal) };
+  }, [voxelIndex, isVoxelEditable]);
 
-  // 更新推拉距离 - 移动到组件内部
+  // 更新推拉距离 - 拖动或键入时只更新预览，在鼠标释放或按下回车时才执行推拉
   const updatePushPullDistance = useCallback((newDistance: number) => {
-    setPushPullState(prev => {
-      // 确保距离是3mm的整数倍
-      const adjustedDistance = Math.round(newDistance / 0.3) * 0.3;
-      
-      // 如果距离没有变化，不更新状态
-      if (adjustedDistance === prev.distance) {
-        return prev;
-      }
-      
-      // 检查是否跨越了新的体素单位(0.3)边界
-      const previousStep = Math.floor(Math.abs(prev.distance) / 0.3);
-      const currentStep = Math.floor(Math.abs(adjustedDistance) / 0.3);
-      const directionChanged = Math.sign(prev.distance) !== Math.sign(adjustedDistance);
-      
-      // 如果方向改变或跨越了新的体素边界，应当执行一次推拉操作
-      if (directionChanged || previousStep !== currentStep) {
-        // 计算需要执行的步数和方向
-        const direction = Math.sign(adjustedDistance);
-        console.log(`跨越新体素边界，需要执行推拉操作，方向: ${direction}, 步数: ${currentStep - previousStep}`);
-        
-        // 执行实际的推拉操作，但保持状态连续性
-        if (direction > 0) {
-          // 向外推，添加一层新体素
-          prev.selectedVoxels.forEach(voxel => {
-            const newPos = voxel.position.clone().add(
-              prev.normal.clone().multiplyScalar(currentStep * 0.3)
-            );
-            
-            // 检查这个位置是否已有体素
-            const hasVoxel = voxels.some(v => 
-              Math.abs(v.position.x - newPos.x) < 0.01 &&
-              Math.abs(v.position.y - newPos.y) < 0.01 &&
-              Math.abs(v.position.z - newPos.z) < 0.01
-            );
-            
-            if (!hasVoxel) {
-              // 添加新体素
-              addVoxel({
-                position: newPos,
-                color: voxel.color
-              });
-            }
-          });
-          
-          // 更新选中的体素和面的中心位置
-          return {
-            ...prev,
-            distance: adjustedDistance,
-            faceCenter: prev.faceCenter.clone().add(
-              prev.normal.clone().multiplyScalar(currentStep * 0.3)
-            ),
-            selectedVoxels: prev.selectedVoxels.map(voxel => ({
-              position: voxel.position.clone().add(
-                prev.normal.clone().multiplyScalar(currentStep * 0.3)
-              ),
-              color: voxel.color
-            })),
-            highlightedFaces: prev.highlightedFaces.map(face => ({
-              position: face.position.clone().add(
-                prev.normal.clone().multiplyScalar(currentStep * 0.3)
-              ),
-              normal: face.normal.clone(),
-              color: face.color
-            }))
-          };
-        } else if (direction < 0) {
-          // 向内推，删除一层体素
-          prev.selectedVoxels.forEach(voxel => {
-            const checkPos = voxel.position.clone().add(
-              prev.normal.clone().multiplyScalar(-currentStep * 0.3)
-            );
-            
-            // 查找并删除这个位置的体素
-            voxels.forEach(existingVoxel => {
-              if (Math.abs(existingVoxel.position.x - checkPos.x) < 0.01 &&
-                  Math.abs(existingVoxel.position.y - checkPos.y) < 0.01 &&
-                  Math.abs(existingVoxel.position.z - checkPos.z) < 0.01) {
-                // 删除这个体素
-                removeVoxel(existingVoxel.position);
-              }
-            });
-          });
-          
-          // 如果是向内推，推杆位置不变，但记录距离变化
-          return {
-            ...prev,
-            distance: adjustedDistance
-          };
-        }
-      }
-      
-      // 仅更新距离，不执行推拉操作
-      return {
-        ...prev,
-        distance: adjustedDistance
-      };
-    });
-  }, [voxels, addVoxel, removeVoxel]);
+    const prev = pushPullStateRef.current;
+    
+    // 确保距离是整数层，没有变化时不更新状态
+    const adjustedDistance = Math.round(newDistance);
+    if (adjustedDistance === prev.distance) return;
+    
+    const next = { ...prev, distance: adjustedDistance };
+    pushPullStateRef.current = next;
+    setPushPullState(next);
+  }, []);
 
-  // 实现推拉操作，添加或删除体素
+  // 实现推拉操作，所有选中的面一次性添加或删除体素
   const pushPullFace = useCallback((normal: THREE.Vector3, distance: number) => {
     if (Math.abs(distance) < 0.01) return; // 如果距离太小，不执行操作
     
-    // 距离应该是3mm的整数倍
-    const steps = Math.round(Math.abs(distance) / 0.3);
+    // 距离应该是整数层
+    const steps = Math.round(Math.abs(distance));
+    
+    // 撤销或重做后源面的体素可能已不存在，此时取消推拉，避免从空格点推出悬空的体素
+    const { voxelIndex: latestIndex } = useStore.getState();
+    if (pushPullState.selectedVoxels.some(voxel => !latestIndex.has(cellOf(voxel.position)))) {
+      setPushPullState(createIdlePushPullState());
+      return;
+    }
     
     // 记录操作起始时间，用于性能测量
     const startTime = performance.now();
     
-    if (distance > 0) {
-      // 向外推拉 - 添加新体素
-      pushPullState.selectedVoxels.forEach(voxel => {
-        for (let i = 1; i <= steps; i++) {
-          const newPos = voxel.position.clone().add(
-            normal.clone().multiplyScalar(i * 0.3)
-          );
-          
-          // 检查这个位置是否已有体素
-          const hasVoxel = voxels.some(v => 
-            Math.abs(v.position.x - newPos.x) < 0.01 &&
-            Math.abs(v.position.y - newPos.y) < 0.01 &&
-            Math.abs(v.position.z - newPos.z) < 0.01
-          );
-          
-          if (!hasVoxel) {
-            addVoxel({
-              position: newPos,
-              color: voxel.color
-            });
-          }
-        }
+    if (!pushPullVoxels(pushPullState.selectedVoxels, normal, Math.round(distance))) {
+      // 推拉被拒绝时模型没有变化，按存储中的当前体素重新确定源面，面不前移
+      setPushPullState(prev => {
+        const { voxelIndex: currentIndex } = useStore.getState();
+        const selectedVoxels = prev.selectedVoxels.flatMap(voxel => {
+          const current = currentIndex.get(cellOf(voxel.position));
+          return current ? [current] : [];
+        });
+        const { center, faces } = describePushPullFaces(selectedVoxels, prev.normal);
+        return { ...prev, distance: 0, faceCenter: center, selectedVoxels, highlightedFaces: faces };
       });
-      
+    } else if (distance > 0) {
       // 向外推拉完成后，更新选中的体素和面的中心位置
       setPushPullState(prev => ({
         ...prev,
         distance: 0, // 重置距离准备下一次操作
         faceCenter: prev.faceCenter.clone().add(
-          normal.clone().multiplyScalar(steps * 0.3)
+          normal.clone().multiplyScalar(steps)
         ),
         selectedVoxels: prev.selectedVoxels.map(voxel => ({
+          ...voxel,
           position: voxel.position.clone().add(
-            normal.clone().multiplyScalar(steps * 0.3)
-          ),
-          color: voxel.color
+            normal.clone().multiplyScalar(steps)
+          )
         })),
         highlightedFaces: prev.highlightedFaces.map(face => ({
           position: face.position.clone().add(
-            normal.clone().multiplyScalar(steps * 0.3)
+            normal.clone().multiplyScalar(steps)
           ),
           normal: face.normal.clone(),
           color: face.color
         }))
       }));
-    } else if (distance < 0) {
-      // 向内推拉 - 删除体素
-      pushPullState.selectedVoxels.forEach(voxel => {
-        for (let i = 1; i <= steps; i++) {
-          const checkPos = voxel.position.clone().add(
-            normal.clone().multiplyScalar(-i * 0.3)
-          );
-          
-          // 优化：使用集合记录要删除的位置，最后一次性删除
-          voxels.forEach(existingVoxel => {
-            if (Math.abs(existingVoxel.position.x - checkPos.x) < 0.01 &&
-                Math.abs(existingVoxel.position.y - checkPos.y) < 0.01 &&
-                Math.abs(existingVoxel.position.z - checkPos.z) < 0.01) {
-              // 删除这个体素
-              removeVoxel(existingVoxel.position);
-            }
-          });
-        }
-      });
-      
+    } else {
       // 向内推拉完成后，只重置距离，面中心和选中的体素位置保持不变
       setPushPullState(prev => ({
         ...prev,
@@ -781,7 +608,7 @@ export const VoxelWorld = () => {
     // 记录操作耗时，如果太长应该做性能优化
     const endTime = performance.now();
     console.log(`推拉操作完成，耗时: ${endTime - startTime}ms, 步数: ${steps}`);
-  }, [pushPullState, voxels, addVoxel, removeVoxel]);
+  }, [pushPullState, pushPullVoxels]);
 
   // 监听悬停体素变化，更新基于体素面的预览
   useEffect(() => {
@@ -808,17 +635,13 @@ export const VoxelWorld = () => {
     // 添加模式下，如果有临时体素，则添加它
     if (toolMode === 'add' && tempVoxel) {
       // 检查是否已存在体素（二次验证）
-      const exists = voxels.some(voxel => 
-        Math.abs(voxel.position.x - tempVoxel.position.x) < 0.01 && 
-        Math.abs(voxel.position.y - tempVoxel.position.y) < 0.01 && 
-        Math.abs(voxel.position.z - tempVoxel.position.z) < 0.01
-      );
+      const exists = voxelIndex.has(cellOf(tempVoxel.position));
       
       if (!exists) {
         // 执行添加
         addVoxel({
           position: tempVoxel.position.clone(),
-          color: '#1e88e5' // 使用默认颜色
+          color: activeColor // 使用当前颜色
         });
       }
       
@@ -829,26 +652,44 @@ export const VoxelWorld = () => {
         checkGridSnapping();
       }, 50);
     }
-  }, [toolMode, tempVoxel, addVoxel, checkGridSnapping, voxels]);
+  }, [toolMode, tempVoxel, addVoxel, checkGridSnapping, voxelIndex, activeColor]);
+  
+  // 一次拖动（在画布上按下到释放）之间的推拉编辑合并为一个撤销步骤；只在拖动真正开始时打开批量编辑
+  const dragBatchRef = useRef(false);
+  const startDragBatch = useCallback(() => {
+    if (dragBatchRef.current) return;
+    dragBatchRef.current = true;
+    beginBatch('推拉');
+  }, [beginBatch]);
+  const endDragBatch = useCallback(() => {
+    if (!dragBatchRef.current) return;
+    dragBatchRef.current = false;
+    endBatch();
+  }, [endBatch]);
   
   // 处理鼠标按下事件 - 激活推拉工具
   const handleMouseDown = useCallback((e: MouseEvent) => {
-    if (toolMode === 'pushpull' && localHovered && localHovered.normal) {
+    // 只处理画布上的按下，面板上的点击不影响推拉
+    if (toolMode !== 'pushpull' || e.target !== gl.domElement) return;
+    
+    // 推拉状态已经激活时不重复激活，此时的按下是拖动控制杆
+    if (pushPullState.active) {
+      startDragBatch();
+      return;
+    }
+    
+    if (localHovered && localHovered.normal) {
       e.preventDefault();
-      
-      // 如果推拉状态已经激活，不要重复激活
-      if (pushPullState.active) {
-        return;
-      }
     
       // 获取当前悬停的法向量和位置
       const normal = localHovered.normal.clone();
       const position = localHovered.position.clone();
       
-      // 查找同一平面上的所有体素
+      // 查找要推拉的体素面（按住 Shift 时为整个平面）
       const { voxels: selectedVoxels, center, faces } = findVoxelsInSamePlane(
         position, 
-        normal
+        normal,
+        e.shiftKey
       );
       
       // 只有找到有效体素才激活推拉操作
@@ -860,12 +701,10 @@ export const VoxelWorld = () => {
           normal: normal,
           distance: 0,
           faceCenter: center,
-          selectedVoxels: selectedVoxels.map(v => ({
-            position: v.position.clone(),
-            color: v.color
-          })),
+          selectedVoxels: selectedVoxels.map(v => ({ ...v, position: v.position.clone() })),
           highlightedFaces: faces
         });
+        startDragBatch();
         
         // 播放激活音效或视觉提示
         if (selectedVoxels.length > 1) {
@@ -873,7 +712,7 @@ export const VoxelWorld = () => {
         }
       }
     }
-  }, [toolMode, localHovered, findVoxelsInSamePlane, pushPullState]);
+  }, [toolMode, gl, localHovered, findVoxelsInSamePlane, pushPullState, startDragBatch]);
   
   // 处理鼠标释放事件，执行推拉操作
   const handleMouseUp = useCallback((e: MouseEvent) => {
@@ -893,33 +732,70 @@ export const VoxelWorld = () => {
         distance: 0
       }));
     }
-  }, [pushPullState, pushPullFace]);
+    
+    // 结束本次推拉的批量编辑
+    endDragBatch();
+  }, [pushPullState, pushPullFace, endDragBatch]);
   
-  // 添加鼠标事件监听
+  // 添加鼠标事件监听；窗口失去焦点或指针被取消时收不到鼠标释放，也要结束批量编辑，否则之后的编辑不再记录历史
   useEffect(() => {
     window.addEventListener('mousedown', handleMouseDown);
     window.addEventListener('mouseup', handleMouseUp);
+    window.addEventListener('blur', endDragBatch);
+    window.addEventListener('pointercancel', endDragBatch);
     
     return () => {
       window.removeEventListener('mousedown', handleMouseDown);
       window.removeEventListener('mouseup', handleMouseUp);
+      window.removeEventListener('blur', endDragBatch);
+      window.removeEventListener('pointercancel', endDragBatch);
     };
-  }, [handleMouseDown, handleMouseUp]);
+  }, [handleMouseDown, handleMouseUp, endDragBatch]);
+  
+  // 组件卸载时关闭未结束的批量编辑
+  useEffect(() => endDragBatch, [endDragBatch]);
 
-  // 添加键盘事件处理 - 支持ESC键取消推拉操作
+  // 添加键盘事件处理 - 支持键入精确距离、回车确认和ESC键取消推拉操作
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'Escape' && pushPullState.active) {
+      if (!pushPullState.active || isTypingTarget(e.target)) return;
+      
+      // 键入内容变化时立即解析并更新预览
+      const updateTyped = (text: string) => {
+        setTypedDistance(text);
+        const layers = parseLayerInput(text, voxelSize);
+        if (layers !== null) {
+          updatePushPullDistance(layers);
+        }
+      };
+      
+      if (/^[0-9.\-mM]$/.test(e.key) && !e.ctrlKey && !e.metaKey && !e.altKey) {
+        e.preventDefault();
+        updateTyped(typedDistance + e.key.toLowerCase());
+      } else if (e.key === 'Backspace' && typedDistance) {
+        e.preventDefault();
+        updateTyped(typedDistance.slice(0, -1));
+      } else if (e.key === 'Enter') {
+        e.preventDefault();
+        const layers = typedDistance ? parseLayerInput(typedDistance, voxelSize) : pushPullState.distance;
+        if (layers === null) {
+          window.alert(`无法识别的推拉距离: ${typedDistance}`);
+          return;
+        }
+        
+        // 按键确认的推拉作为一个独立的撤销步骤
+        console.log(`键入推拉距离: ${layers} 层`);
+        setTypedDistance('');
+        beginBatch('推拉');
+        pushPullFace(pushPullState.normal, layers);
+        endBatch();
+      } else if (e.key === 'Escape' && typedDistance) {
+        // 先清除键入的距离，再按一次ESC才取消推拉
+        setTypedDistance('');
+        updatePushPullDistance(0);
+      } else if (e.key === 'Escape') {
         // 取消推拉操作，完全重置状态
-        setPushPullState({
-          active: false,
-          startPosition: new THREE.Vector3(),
-          normal: new THREE.Vector3(),
-          distance: 0,
-          faceCenter: new THREE.Vector3(),
-          selectedVoxels: [],
-          highlightedFaces: []
-        });
+        setPushPullState(createIdlePushPullState());
       }
     };
     
@@ -927,15 +803,7 @@ export const VoxelWorld = () => {
     const handleClickOutside = (e: MouseEvent) => {
       // 检查是否点击在3D场景之外
       if (pushPullState.active && e.target && !(e.target as HTMLElement).closest('canvas')) {
-        setPushPullState({
-          active: false,
-          startPosition: new THREE.Vector3(),
-          normal: new THREE.Vector3(),
-          distance: 0,
-          faceCenter: new THREE.Vector3(),
-          selectedVoxels: [],
-          highlightedFaces: []
-        });
+        setPushPullState(createIdlePushPullState());
       }
     };
     
@@ -946,7 +814,23 @@ export const VoxelWorld = () => {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('click', handleClickOutside);
     };
-  }, [pushPullState]);
+  }, [pushPullState, typedDistance, voxelSize, updatePushPullDistance, pushPullFace, beginBatch, endBatch]);
+  
+  // 推拉结束或重新开始拖动时丢弃键入的距离
+  useEffect(() => {
+    if (!pushPullState.active) {
+      setTypedDistance('');
+    }
+  }, [pushPullState.active]);
+  
+  // 模型变化后（如撤销或重做）源面的体素不再存在时，结束推拉并关闭未结束的批量编辑
+  useEffect(() => {
+    const { active, selectedVoxels } = pushPullStateRef.current;
+    if (!active || selectedVoxels.every(voxel => voxelIndex.has(cellOf(voxel.position)))) return;
+    console.log('推拉的源面已不存在，取消推拉');
+    endDragBatch();
+    setPushPullState(createIdlePushPullState());
+  }, [voxelIndex, endDragBatch]);
   
   // 推拉预览渲染 - 移动到组件内部
   const renderedPushPullPreview = useMemo(() => {
@@ -964,122 +848,127 @@ export const VoxelWorld = () => {
           position={pushPullState.faceCenter}
           normal={normal}
           distance={distance}
-          onUpdate={updatePushPullDistance}
+          onUpdate={(newDistance) => {
+            setTypedDistance('');
+            updatePushPullDistance(newDistance);
+          }}
         />
       );
       
+      // 控制杆旁的实时尺寸标注，键入时显示键入的内容和换算后的层数
+      const typedLayers = typedDistance ? parseLayerInput(typedDistance, voxelSize) : null;
+      const labelPosition = cellToWorld(
+        pushPullState.faceCenter.clone().addScaledVector(normal, Math.max(distance, 0) + 1.5)
+      );
+      previewElements.push(
+        <Html key="pushpull-label" position={labelPosition} center style={{ pointerEvents: 'none' }}>
+          <div className="dimension-label">
+            {typedDistance
+              ? `${typedDistance}${typedLayers === null ? '' : ` → ${typedLayers} 层`}`
+              : `${distance} 层 / ${+(distance * voxelSize).toFixed(2)}mm`}
+          </div>
+        </Html>
+      );
+      
       // 根据推拉方向显示预览
       if (distance !== 0) {
-        const steps = Math.round(Math.abs(distance) / 0.3);
+        const steps = Math.abs(distance);
         const previewColor = distance > 0 ? '#00ff00' : '#ff0000';
         const previewOpacity = 0.5;
+        const previewCells: THREE.Vector3[] = [];
         
-        pushPullState.selectedVoxels.forEach((voxel, vIndex) => {
+        pushPullState.selectedVoxels.forEach(voxel => {
           for (let i = 1; i <= steps; i++) {
             // 向外推拉时创建预览体素
             if (distance > 0) {
               const previewPos = voxel.position.clone().add(
-                normal.clone().multiplyScalar(i * 0.3)
+                normal.clone().multiplyScalar(i)
               );
               
               // 检查这个位置是否已有体素
-              const hasVoxel = voxels.some(v => 
-                Math.abs(v.position.x - previewPos.x) < 0.01 &&
-                Math.abs(v.position.y - previewPos.y) < 0.01 &&
-                Math.abs(v.position.z - previewPos.z) < 0.01
-              );
-              
-              if (!hasVoxel) {
-                previewElements.push(
-                  <Voxel
-                    key={`preview-${vIndex}-${i}`}
-                    position={previewPos}
-                    color={previewColor}
-                    opacity={previewOpacity}
-                    isPreview
-                  />
-                );
+              if (!voxelIndex.has(cellOf(previewPos))) {
+                previewCells.push(previewPos);
               }
             } 
             // 向内推拉时高亮将被删除的体素
             else if (distance < 0) {
               const checkPos = voxel.position.clone().add(
-                normal.clone().multiplyScalar(-i * 0.3)
+                normal.clone().multiplyScalar(-i)
               );
               
               // 找出这个位置是否有体素并高亮显示
-              voxels.forEach((existingVoxel, eIndex) => {
-                if (Math.abs(existingVoxel.position.x - checkPos.x) < 0.01 &&
-                    Math.abs(existingVoxel.position.y - checkPos.y) < 0.01 &&
-                    Math.abs(existingVoxel.position.z - checkPos.z) < 0.01) {
-                  previewElements.push(
-                    <mesh
-                      key={`delete-preview-${eIndex}-${i}`}
-                      position={existingVoxel.position.clone()}
-                      scale={[1.02, 1.02, 1.02]}
-                    >
-                      <boxGeometry args={[0.301, 0.301, 0.301]} />
-                      <meshBasicMaterial color={previewColor} wireframe transparent opacity={previewOpacity} />
-                    </mesh>
-                  );
-                }
-              });
+              const existingVoxel = voxelIndex.get(cellOf(checkPos));
+              if (existingVoxel) {
+                previewCells.push(existingVoxel.position);
+              }
             }
           }
         });
-      }
-      
-      // 高亮当前选中的面
-      pushPullState.highlightedFaces.forEach((face, index) => {
+        
         previewElements.push(
-          <FaceHighlight
-            key={`active-face-${index}`}
-            position={face.position}
-            normal={face.normal}
-            color="#ffcc00"
-            opacity={0.5}
+          <PreviewVoxels
+            key="pushpull-preview"
+            cells={previewCells}
+            color={previewColor}
+            opacity={previewOpacity}
+            wireframe={distance < 0}
+            scale={distance < 0 ? 1.02 : 1}
           />
         );
-      });
+      }
+      
+      // 高亮当前选中的面
+      previewElements.push(
+        <FaceHighlights
+          key="active-faces"
+          faces={pushPullState.highlightedFaces}
+          normal={normal}
+          color="#ffcc00"
+          opacity={0.5}
+        />
+      );
     } 
-    // 非激活状态下，高亮显示悬停时的同平面体素面
+    // 非激活状态下，高亮显示悬停时将被推拉的体素面
     else if (toolMode === 'pushpull' && localHovered && localHovered.normal) {
-      // 查找同一平面的所有体素面
+      // 查找相连区域（按住 Shift 时为整个平面）的体素面
       const { faces } = findVoxelsInSamePlane(
         localHovered.position,
-        localHovered.normal
+        localHovered.normal,
+        wholePlane
       );
       
-      // 为同一平面的所有体素面添加高亮效果
-      faces.forEach((face, index) => {
-        previewElements.push(
-          <FaceHighlight
-            key={`hover-face-${index}`}
-            position={face.position}
-            normal={face.normal}
-            color="#ffff00"
-            opacity={0.3}
-          />
-        );
-      });
+      // 为这些体素面添加高亮效果
+      previewElements.push(
+        <FaceHighlights
+          key="hover-faces"
+          faces={faces}
+          normal={localHovered.normal}
+          color="#ffff00"
+          opacity={0.3}
+        />
+      );
     }
     
     return <>{previewElements}</>;
-  }, [pushPullState, toolMode, updatePushPullDistance, voxels, localHovered, findVoxelsInSamePlane]);
+  }, [pushPullState, toolMode, updatePushPullDistance, voxelIndex, localHovered, findVoxelsInSamePlane, wholePlane,
+    typedDistance, voxelSize]);
+  
+  // 导入预览的位置和颜色
+  const importPreviewData = useMemo(() => importPreview && {
+    cells: importPreview.map(voxel => voxel.position),
+    colors: importPreview.map(voxel => voxel.color)
+  }, [importPreview]);
   
   return (
     <group 
       ref={groupRef}
       onClick={handleSceneClick}
     >
-      {/* 渲染所有已放置的体素 */}
-      {voxels.map((voxel) => (
-        <Voxel
-          key={`voxel-${voxel.position.x}-${voxel.position.y}-${voxel.position.z}`}
-          position={voxel.position}
-          color={voxel.color}
-        />
-      ))}
+      {/* 按分块合并渲染所有已放置的体素 */}
+      <VoxelChunks />
+      
+      {/* 悬停高亮覆盖层 */}
+      <HoverHighlight />
       
       {/* 渲染临时预览体素 */}
       {tempVoxel && (
@@ -1087,12 +976,32 @@ export const VoxelWorld = () => {
           position={tempVoxel.position}
           color={tempVoxel.color}
           opacity={0.5}
+          material={materials.find(material => material.id === activeMaterial)}
           isPreview
         />
       )}
       
       {/* 渲染推拉预览 */}
       {renderedPushPullPreview}
+      
+      {/* 长方体工具的虚影预览 */}
+      <BoxTool />
+      
+      {/* 测量线和距离标注 */}
+      <MeasureTool />
+      
+      {/* 选区轮廓、移动控制柄和粘贴预览 */}
+      <SelectionTool />
+      
+      {/* 渲染导入预览 */}
+      {importPreviewData && (
+        <PreviewVoxels
+          cells={importPreviewData.cells}
+          colors={importPreviewData.colors}
+          color="#ffffff"
+          opacity={0.7}
+        />
+      )}
     </group>
   );
 }; 
\ No newline at end of file
@@ -0,0 +1,121 @@
+import { useEffect } from 'react';
+import { Vector3 } from 'three';
+import { useStore } from './useStore';
+import { ActionId, eventKeyName, findAction, isTypingTarget } from '../utils/keymap';
+
+// 选择工具中移动选区的方向：左右沿 X 轴，前后沿 Z 轴，上下沿 Y 轴
+const MOVE_OFFSETS: Partial<Record<ActionId, [number, number, number]>> = {
+  'selection.moveLeft': [-1, 0, 0],
+  'selection.moveRight': [1, 0, 0],
+  'selection.moveForward': [0, 0, -1],
+  'selection.moveBack': [0, 0, 1],
+  'selection.moveUp': [0, 1, 0],
+  'selection.moveDown': [0, -1, 0]
+};
+
+// 执行快捷键操作，返回 false 表示当前状态下不适用（不阻止按键的默认行为）
+const runAction = (id: ActionId): boolean => {
+  const state = useStore.getState();
+  const inSelect = state.toolMode === 'select';
+
+  switch (id) {
+    case 'tool.add': state.setToolMode('add'); return true;
+    case 'tool.remove': state.setToolMode('remove'); return true;
+    case 'tool.pushpull': state.setToolMode('pushpull'); return true;
+    case 'tool.paint': state.setToolMode('paint'); return true;
+    case 'tool.eyedropper': state.setToolMode('eyedropper'); return true;
+    case 'tool.fill': state.setToolMode('fill'); return true;
+    case 'tool.select': state.setToolMode('select'); return true;
+    case 'tool.box': state.setToolMode('box'); return true;
+    case 'tool.measure': state.setToolMode('measure'); return true;
+    case 'tool.momentaryRemove':
+      // 长方体工具中 Alt 用于切换挖除，不临时切换工具；切换工具会放弃正在进行的放置或直线选取，松开后无法恢复
+      if (state.toolMode === 'box' || state.toolMode === 'remove') return false;
+      if (state.pasteBuffer || state.pickingLine) return false;
+      state.pushToolMode('remove');
+      return true;
+    case 'edit.undo': state.undo(); return true;
+    case 'edit.redo': state.redo(); return true;
+    case 'edit.copy':
+      // 没有选中的体素时保留按键的默认行为
+      if (state.getSelectedVoxels().length === 0) return false;
+      state.copySelection();
+      return true;
+    case 'edit.cut':
+      if (state.getSelectedVoxels().length === 0) return false;
+      state.cutSelection();
+      return true;
+    case 'edit.paste':
+      // 剪贴板为空时不切换工具；粘贴需要在选择工具中放置
+      if (state.clipboard.length === 0) return false;
+      state.setToolMode('select');
+      state.startPaste();
+      return true;
+    case 'edit.duplicate':
+      // 正在放置或选取直线时不开始新的放置
+      if (state.getSelectedVoxels().length === 0 || state.pasteBuffer || state.pickingLine) return false;
+      state.duplicateSelection();
+      return true;
+    case 'selection.delete':
+      if (!inSelect) return false;
+      state.deleteSelection();
+      return true;
+    case 'selection.cancel':
+      if (!inSelect) return false;
+      if (state.pasteBuffer || state.pickingLine) {
+        state.cancelPaste();
+      } else {
+        state.clearSelection();
+      }
+      return true;
+    case 'view.stats': state.toggleStats(); return true;
+    case 'view.shortcuts': state.setShowShortcuts(!state.showShortcuts); return true;
+    default: {
+      const offset = MOVE_OFFSETS[id];
+      if (!offset || !inSelect || state.selection.size === 0) return false;
+      state.moveSelection(new Vector3(...offset));
+      return true;
+    }
+  }
+};
+
+// 全局快捷键 - 按 keymap 分发按键，输入文字时不触发；临时操作在松开按键或窗口失去焦点时恢复之前的工具
+export const useShortcuts = () => {
+  useEffect(() => {
+    // 正在按住的临时操作按键
+    let momentaryKey: string | null = null;
+
+    const release = () => {
+      if (momentaryKey === null) return;
+      momentaryKey = null;
+      useStore.getState().popToolMode();
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target)) return;
+      const action = findAction(useStore.getState().keymap, e);
+      // 按住临时操作按键时的自动重复不再切换
+      if (!action || (action.momentary && (e.repeat || momentaryKey !== null))) return;
+      if (!runAction(action.id)) return;
+      e.preventDefault();
+      if (action.momentary) {
+        momentaryKey = eventKeyName(e);
+      }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (momentaryKey !== null && eventKeyName(e) === momentaryKey) {
+        release();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', release);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', release);
+    };
+  }, []);
+};
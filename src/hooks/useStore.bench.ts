@@ -0,0 +1,29 @@
+import { bench, describe } from 'vitest';
+import { Vector3 } from 'three';
+import { Voxel, useStore } from './useStore';
+
+// size×size 的水平板，位于 y=0
+const createPlate = (size: number, color = '#888888'): Voxel[] => {
+  const voxels: Voxel[] = [];
+  for (let x = 0; x < size; x++) {
+    for (let z = 0; z < size; z++) voxels.push({ position: new Vector3(x, 0, z), color });
+  }
+  return voxels;
+};
+
+const UP = new Vector3(0, 1, 0);
+
+// 逐个体素编辑时需要数秒，一次批量编辑应在一帧左右完成；每次迭代推拉后撤销，使下一次迭代从同一块板开始
+describe('pushPullVoxels', () => {
+  let plate: Voxel[] = [];
+
+  bench('64×64 的面推拉一层并撤销', () => {
+    useStore.getState().pushPullVoxels(plate, UP, 1);
+    useStore.getState().undo();
+  }, {
+    setup: () => {
+      useStore.getState().replaceVoxels(createPlate(64), '基准');
+      plate = useStore.getState().voxels.slice();
+    }
+  });
+});
@@ -0,0 +1,226 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Vector3 } from 'three';
+import { Voxel, useStore } from './useStore';
+import { DEFAULT_LAYER_ID, createDefaultLayers } from '../utils/layers';
+import { positionKey } from '../utils/voxelIndex';
+
+// size×size 的水平板，位于 y=0
+const createPlate = (size: number, color = '#888888'): Voxel[] => {
+  const voxels: Voxel[] = [];
+  for (let x = 0; x < size; x++) {
+    for (let z = 0; z < size; z++) voxels.push({ position: new Vector3(x, 0, z), color });
+  }
+  return voxels;
+};
+
+const UP = new Vector3(0, 1, 0);
+
+// 关闭剖切、解锁并显示所有图层后用 voxels 替换模型，再恢复为只有默认图层
+const resetStore = (voxels: Voxel[]) => {
+  const state = useStore.getState();
+  state.setSection({ enabled: false });
+  state.layers.forEach(layer => {
+    state.setLayerVisible(layer.id, true);
+    state.setLayerLocked(layer.id, false);
+  });
+  state.replaceVoxels(voxels.map(voxel => ({ ...voxel, layer: DEFAULT_LAYER_ID })), '测试');
+  useStore.setState({ layers: createDefaultLayers(), activeLayer: DEFAULT_LAYER_ID, selection: new Set() });
+};
+
+describe('pushPullVoxels', () => {
+  beforeEach(() => {
+    resetStore(createPlate(64));
+  });
+
+  // 耗时见 useStore.bench.ts
+  it('64×64 的面推拉一次作为一次编辑完成', () => {
+    const plate = useStore.getState().voxels.slice();
+    const undoDepth = useStore.getState().undoStack.length;
+
+    useStore.getState().pushPullVoxels(plate, UP, 1);
+
+    const state = useStore.getState();
+    expect(state.voxels).toHaveLength(64 * 64 * 2);
+    expect(state.undoStack).toHaveLength(undoDepth + 1);
+    expect(state.undoStack[state.undoStack.length - 1].changes).toHaveLength(64 * 64);
+  });
+
+  it('多层推拉与向内拉回都只产生一个撤销步骤', () => {
+    const plate = useStore.getState().voxels.slice();
+    useStore.getState().pushPullVoxels(plate, UP, 4);
+    expect(useStore.getState().voxels).toHaveLength(64 * 64 * 5);
+
+    // 从顶面向内拉 2 层
+    const top = useStore.getState().voxels.filter(voxel => voxel.position.y === 4);
+    useStore.getState().pushPullVoxels(top, UP, -2);
+    expect(useStore.getState().voxels).toHaveLength(64 * 64 * 3);
+
+    useStore.getState().undo();
+    expect(useStore.getState().voxels).toHaveLength(64 * 64 * 5);
+    useStore.getState().undo();
+    expect(useStore.getState().voxels).toHaveLength(64 * 64);
+  });
+
+  it('继承源面颜色时新体素也继承材质', () => {
+    const source: Voxel = { position: new Vector3(0, 0, 0), color: '#ff0000', material: 'glass' };
+    resetStore([source]);
+    useStore.getState().setPushPullColorMode('inherit');
+
+    useStore.getState().pushPullVoxels(useStore.getState().voxels.slice(), UP, 1);
+
+    const added = useStore.getState().voxelIndex.get([0, 1, 0]);
+    expect(added?.color).toBe('#ff0000');
+    expect(added?.material).toBe('glass');
+  });
+});
+
+describe('addVoxel', () => {
+  it('保留体素的材质和图层', () => {
+    resetStore([]);
+    useStore.getState().addLayer();
+    const layer = useStore.getState().layers[0].id;
+    useStore.getState().setActiveLayer(DEFAULT_LAYER_ID);
+
+    useStore.getState().addVoxel({ position: new Vector3(2, 3, 4), color: '#00ff00', material: 'metal', layer });
+
+    const added = useStore.getState().voxelIndex.get([2, 3, 4]);
+    expect(added?.material).toBe('metal');
+    expect(added?.layer).toBe(layer);
+    expect(layer).not.toBe(DEFAULT_LAYER_ID);
+  });
+});
+
+describe('隐藏或锁定的图层', () => {
+  const alert = vi.fn();
+
+  beforeEach(() => {
+    alert.mockClear();
+    vi.stubGlobal('window', { alert });
+    resetStore([{ position: new Vector3(0, 0, 0), color: '#ff0000' }]);
+    // 新建图层并在其中放一个体素，然后锁定该图层
+    useStore.getState().addLayer();
+    useStore.getState().addVoxel({ position: new Vector3(1, 0, 0), color: '#ff0000' });
+    useStore.getState().setLayerLocked(useStore.getState().activeLayer, true);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('移动到锁定体素上时整次移动都不执行并提示', () => {
+    const before = useStore.getState().undoStack.length;
+    useStore.getState().selectCells([positionKey(new Vector3(0, 0, 0))], 'replace');
+
+    useStore.getState().moveSelection(new Vector3(1, 0, 0));
+
+    const state = useStore.getState();
+    expect(alert).toHaveBeenCalledTimes(1);
+    expect(state.voxelIndex.get([0, 0, 0])?.layer).toBe(DEFAULT_LAYER_ID);
+    expect(state.voxelIndex.get([1, 0, 0])?.layer).not.toBe(DEFAULT_LAYER_ID);
+    expect(state.selection).toEqual(new Set([positionKey(new Vector3(0, 0, 0))]));
+    expect(state.undoStack).toHaveLength(before);
+  });
+
+  it('推拉被拒绝时返回 false 且模型不变', () => {
+    const source = useStore.getState().voxelIndex.get([0, 0, 0])!;
+
+    const applied = useStore.getState().pushPullVoxels([source], UP, 1);
+
+    expect(applied).toBe(false);
+    expect(alert).toHaveBeenCalledTimes(1);
+    expect(useStore.getState().voxelIndex.get([0, 1, 0])).toBeUndefined();
+  });
+
+  it('图层锁定时仍可替换整个模型，撤销后体素回到原图层', () => {
+    const locked = useStore.getState().activeLayer;
+
+    expect(useStore.getState().replaceVoxels(createPlate(4), '导入')).toBe(true);
+    expect(alert).not.toHaveBeenCalled();
+    expect(useStore.getState().voxels).toHaveLength(16);
+
+    useStore.getState().undo();
+
+    const state = useStore.getState();
+    expect(state.voxels).toHaveLength(2);
+    expect(state.voxelIndex.get([0, 0, 0])?.layer).toBe(DEFAULT_LAYER_ID);
+    expect(state.voxelIndex.get([1, 0, 0])?.layer).toBe(locked);
+  });
+
+  it('替换颜色只作用于可编辑的体素', () => {
+    useStore.getState().replaceColor('#ff0000', '#0000ff');
+
+    expect(alert).not.toHaveBeenCalled();
+    expect(useStore.getState().voxelIndex.get([0, 0, 0])?.color).toBe('#0000ff');
+    expect(useStore.getState().voxelIndex.get([1, 0, 0])?.color).toBe('#ff0000');
+  });
+});
+
+describe('剖切面', () => {
+  const alert = vi.fn();
+
+  beforeEach(() => {
+    alert.mockClear();
+    vi.stubGlobal('window', { alert });
+    resetStore([
+      { position: new Vector3(0, 0, 0), color: '#ff0000' },
+      { position: new Vector3(2, 0, 0), color: '#00ff00' }
+    ]);
+    // 只保留 x <= 0 的一侧
+    useStore.getState().setSection({ enabled: true, axis: 'x', position: 0, flip: false });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('移动到剖切面外的空格点时整次移动都不执行，体素不会丢失', () => {
+    useStore.getState().selectCells([positionKey(new Vector3(0, 0, 0))], 'replace');
+
+    useStore.getState().moveSelection(new Vector3(1, 0, 0));
+
+    expect(alert).toHaveBeenCalledTimes(1);
+    expect(useStore.getState().voxelIndex.get([0, 0, 0])?.color).toBe('#ff0000');
+    expect(useStore.getState().voxelIndex.get([1, 0, 0])).toBeUndefined();
+  });
+
+  it('跨过剖切面填充长方体时整次填充都不执行并提示', () => {
+    const before = useStore.getState().undoStack.length;
+
+    useStore.getState().fillBox(new Vector3(-2, 1, 0), new Vector3(2, 1, 0), '#0000ff');
+
+    expect(alert).toHaveBeenCalledTimes(1);
+    expect(useStore.getState().voxelIndex.get([-1, 1, 0])).toBeUndefined();
+    expect(useStore.getState().voxelIndex.get([1, 1, 0])).toBeUndefined();
+    expect(useStore.getState().undoStack).toHaveLength(before);
+  });
+
+  it('移动会覆盖剖切面外被隐藏的体素时整次移动都不执行并提示', () => {
+    useStore.getState().selectCells([positionKey(new Vector3(0, 0, 0))], 'replace');
+
+    useStore.getState().moveSelection(new Vector3(2, 0, 0));
+
+    expect(alert).toHaveBeenCalledTimes(1);
+    expect(useStore.getState().voxelIndex.get([0, 0, 0])?.color).toBe('#ff0000');
+    expect(useStore.getState().voxelIndex.get([2, 0, 0])?.color).toBe('#00ff00');
+  });
+
+  it('替换整个模型时不受剖切面影响', () => {
+    useStore.getState().replaceVoxels(createPlate(4), '导入');
+
+    expect(alert).not.toHaveBeenCalled();
+    expect(useStore.getState().voxels).toHaveLength(16);
+  });
+});
+
+describe('最近使用颜色', () => {
+  it('只在确认颜色后加入最近使用列表，拖动取色器的中间颜色不会加入', () => {
+    useStore.setState({ recentColors: ['#111111'] });
+
+    ['#200000', '#400000', '#800000'].forEach(color => useStore.getState().setActiveColor(color));
+    expect(useStore.getState().recentColors).toEqual(['#111111']);
+
+    useStore.getState().commitRecentColor();
+    expect(useStore.getState().activeColor).toBe('#800000');
+    expect(useStore.getState().recentColors).toEqual(['#800000', '#111111']);
+  });
+});
@@ -1,10 +1,26 @@
 import { create } from 'zustand';
 import { Vector3 } from 'three';
+import { DEFAULT_VOXEL_SIZE_MM } from '../utils/grid';
+import type { CameraState, ProjectData } from '../utils/projectFile';
+import { VoxelIndex, createVoxelIndex, cellOf, positionKey, offsetCell, cellToPosition, findExposedVoxelsInPlane,
+  parseCellKey, Cell, findConnectedRegion, findConnectedExposedRegion } from '../utils/voxelIndex';
+import { normalizeClipboard } from '../utils/selection';
+import { bresenhamLine } from '../utils/shapes';
+import { SymmetryAxis, SymmetrySettings, getMirrorImages, hasSymmetry, isOnSymmetryPlane, mirrorCell } from '../utils/symmetry';
+import { Layer, createDefaultLayers, createLayer, getEditableLayerIds, DEFAULT_LAYER_ID } from '../utils/layers';
+import { SectionSettings, isCellClipped } from '../utils/section';
+import { ModelStats, createModelStats, statsAddVoxel, statsRemoveVoxel, statsReplaceVoxel, withNewStats } from '../utils/stats';
+import { ActionId, Keymap, createDefaultKeymap, loadKeymap, saveKeymap } from '../utils/keymap';
+import { VoxelMaterial, PRESET_MATERIALS, DEFAULT_MATERIAL_ID, createCustomMaterial, isPresetMaterial } from '../utils/materials';
 
-// 体素接口
-interface Voxel {
+// 体素接口 - position 为整数格点坐标，世界坐标由 utils/grid 换算
+export interface Voxel {
   position: Vector3;
   color: string;
+  // 所属图层 id，未指定时写入模型的体素会放入当前图层
+  layer?: string;
+  // 材质 id，未指定时写入模型的体素使用当前材质
+  material?: string;
 }
 
 // 面接口
@@ -13,245 +29,1199 @@ interface Face {
 }
 
 // 工具模式类型
-type ToolMode = 'add' | 'remove' | 'pushpull';
+export type ToolMode = 'add' | 'remove' | 'pushpull' | 'paint' | 'eyedropper' | 'select' | 'box' | 'fill' | 'measure';
+
+// 选区的更新方式：替换、加入或切换选中状态
+export type SelectionMode = 'replace' | 'add' | 'toggle';
+
+// 推拉新体素的颜色来源：继承源面颜色或使用当前颜色
+export type PushPullColorMode = 'inherit' | 'active';
+
+// 单个格点的变更：before 为变更前的体素，after 为变更后的体素（null 表示该格点为空）
+interface CellChange {
+  key: string;
+  before: Voxel | null;
+  after: Voxel | null;
+}
+
+// 历史命令 - 一次可撤销的编辑（可能包含多个格点的变更）
+interface HistoryCommand {
+  label: string;
+  changes: CellChange[];
+}
 
 // 存储状态接口
 interface StoreState {
   voxels: Voxel[];
+  voxelIndex: VoxelIndex;
+  // 模型统计，随编辑增量更新
+  stats: ModelStats;
   hoveredVoxel: Voxel | null;
   selectedFace: Face | null;
   toolMode: ToolMode;
+  // 临时工具切换前的工具（按住快捷键时压入，松开时恢复）
+  toolModeStack: ToolMode[];
   hoveredPlanarVoxels: Voxel[];
+  undoStack: HistoryCommand[];
+  redoStack: HistoryCommand[];
+  canUndo: boolean;
+  canRedo: boolean;
+  voxelSize: number;
+  activeColor: string;
+  recentColors: string[];
+  pushPullColorMode: PushPullColorMode;
+  camera: CameraState | null;
+  cameraVersion: number;
+  importPreview: Voxel[] | null;
+  // 选中格点的键
+  selection: Set<string>;
+  // 内部剪贴板 - 位置相对于包围盒最小角
+  clipboard: Voxel[];
+  // 正在放置的粘贴内容（相对坐标），为 null 表示未在粘贴
+  pasteBuffer: Voxel[] | null;
+  // 放置完成后记录的历史步骤名称（粘贴、副本、形状）
+  pasteLabel: string;
+  // 粘贴时是否覆盖已有体素，否则跳过被占据的格点
+  pasteOverwrite: boolean;
+  // 是否正在选取直线的两个端点，以及已选取的起点
+  pickingLine: boolean;
+  lineStart: Vector3 | null;
+  // 对称编辑设置
+  symmetry: SymmetrySettings;
+  // 图层列表（按面板中从上到下的顺序）和当前图层，新体素放入当前图层
+  layers: Layer[];
+  activeLayer: string;
+  // 剖切面设置，剖切面外的体素不显示也不可编辑
+  section: SectionSettings;
+  // 材质库（预设材质在前，之后为自定义材质）和当前材质，新体素和上色使用当前材质
+  materials: VoxelMaterial[];
+  activeMaterial: string;
+  // 快捷键设置（保存在浏览器中，跨项目共享），以及速查表和性能监视器是否显示
+  keymap: Keymap;
+  showShortcuts: boolean;
+  showStats: boolean;
   
   // 操作方法
   setHoveredVoxel: (voxel: Voxel | null) => void;
   setSelectedFace: (face: Face | null) => void;
   setToolMode: (mode: ToolMode) => void;
+  pushToolMode: (mode: ToolMode) => void;
+  popToolMode: () => void;
   addVoxel: (voxel: Voxel) => void;
   removeVoxel: (position: Vector3) => void;
-  pushPullFace: (normal: Vector3, distance: number) => void;
+  pushPullFace: (layers: number, wholePlane?: boolean) => void;
+  pushPullVoxels: (voxels: Voxel[], normal: Vector3, layers: number) => boolean;
   resetWorld: () => void;
   setHoveredPlanarVoxels: (voxels: Voxel[]) => void;
+  setVoxelSize: (size: number) => void;
+  
+  // 调色板
+  setActiveColor: (color: string) => void;
+  commitRecentColor: () => void;
+  setPushPullColorMode: (mode: PushPullColorMode) => void;
+  paintVoxel: (position: Vector3, color: string) => void;
+  fillColor: (position: Vector3, color: string) => void;
+  fillFaceColor: (position: Vector3, normal: Vector3, color: string) => void;
+  replaceColor: (from: string, to: string) => void;
+  getPushPullColor: (sourceColor: string) => string;
+  sampleHoveredColor: () => void;
+  
+  // 项目
+  setCamera: (camera: CameraState) => void;
+  getProjectData: () => ProjectData;
+  loadProject: (project: ProjectData) => void;
+  newProject: () => void;
+  replaceVoxels: (voxels: Voxel[], label: string) => boolean;
+  addVoxels: (voxels: Voxel[], label: string) => void;
+  setImportPreview: (voxels: Voxel[] | null) => void;
+  fillBox: (from: Vector3, to: Vector3, color: string) => void;
+  carveBox: (from: Vector3, to: Vector3) => void;
+  
+  // 选区
+  selectCells: (keys: string[], mode: SelectionMode) => void;
+  clearSelection: () => void;
+  getSelectedVoxels: () => Voxel[];
+  deleteSelection: () => void;
+  copySelection: () => void;
+  cutSelection: () => void;
+  duplicateSelection: () => void;
+  moveSelection: (offset: Vector3) => void;
+  startPaste: () => void;
+  startPlacement: (voxels: Voxel[], label: string) => void;
+  cancelPaste: () => void;
+  startLinePick: () => void;
+  pickLinePoint: (cell: Vector3) => void;
+  
+  // 对称
+  setSymmetry: (settings: Partial<SymmetrySettings>) => void;
+  mirrorModel: (axis: SymmetryAxis) => void;
+  commitPaste: (origin: Vector3) => void;
+  setPasteOverwrite: (overwrite: boolean) => void;
+  
+  // 图层
+  addLayer: () => void;
+  setActiveLayer: (id: string) => void;
+  renameLayer: (id: string, name: string) => void;
+  setLayerVisible: (id: string, visible: boolean) => void;
+  setLayerLocked: (id: string, locked: boolean) => void;
+  moveLayer: (id: string, offset: number) => void;
+  mergeLayer: (id: string, targetId: string) => void;
+  isVoxelEditable: (voxel: Voxel) => boolean;
+  
+  // 剖切
+  setSection: (settings: Partial<SectionSettings>) => void;
+  isVoxelVisible: (voxel: Voxel) => boolean;
+  
+  // 材质
+  setActiveMaterial: (id: string) => void;
+  addMaterial: () => void;
+  updateMaterial: (id: string, patch: Partial<Omit<VoxelMaterial, 'id'>>) => void;
+  
+  // 快捷键
+  setShortcuts: (id: ActionId, shortcuts: string[]) => void;
+  resetKeymap: () => void;
+  setShowShortcuts: (show: boolean) => void;
+  toggleStats: () => void;
+  
+  // 历史记录
+  undo: () => void;
+  redo: () => void;
+  beginBatch: (label: string) => void;
+  endBatch: () => void;
 }
 
-// 判断两个位置是否相同的辅助函数
-const isSamePosition = (a: Vector3, b: Vector3): boolean => {
-  return a.x === b.x && a.y === b.y && a.z === b.z;
-};
+// 历史记录的最大步数
+const MAX_HISTORY = 100;
 
-// 创建状态存储
-export const useStore = create<StoreState>((set, get) => ({
-  voxels: [
-    // 初始体素（可以看作是一个起始的平台）
-    { position: new Vector3(0, 0, 0), color: '#1e88e5' },
-    { position: new Vector3(0.3, 0, 0), color: '#1e88e5' },
-    { position: new Vector3(0, 0, 0.3), color: '#1e88e5' },
-    { position: new Vector3(0.3, 0, 0.3), color: '#1e88e5' },
-  ],
-  hoveredVoxel: null,
-  selectedFace: null,
-  toolMode: 'add',
-  hoveredPlanarVoxels: [],
+// 默认体素颜色
+export const DEFAULT_COLOR = '#1e88e5';
+
+// 最近使用颜色的最大数量
+const MAX_RECENT_COLORS = 10;
 
-  // 设置悬停的体素
-  setHoveredVoxel: (voxel) => {
+// 初始体素（可以看作是一个起始的平台）
+const createInitialVoxels = (color = DEFAULT_COLOR): Voxel[] => [
+  { position: new Vector3(0, 0, 0), color },
+  { position: new Vector3(1, 0, 0), color },
+  { position: new Vector3(0, 0, 1), color },
+  { position: new Vector3(1, 0, 1), color },
+];
+
+// 将变更应用到体素列表、空间索引和模型统计上，side 决定使用变更前还是变更后的状态
+// 空间索引和统计会被原地更新，调用方需用 withNewIdentity 和 withNewStats 生成新引用以触发订阅更新
+const applyChanges = (voxels: Voxel[], index: VoxelIndex, stats: ModelStats, changes: CellChange[],
+  side: 'before' | 'after'): Voxel[] => {
+  const changedKeys = new Set(changes.map(change => change.key));
+  const result = voxels.filter(voxel => !changedKeys.has(positionKey(voxel.position)));
+  changes.forEach(change => {
+    const voxel = change[side];
+    const previous = change[side === 'after' ? 'before' : 'after'];
+    // 同一格点上的替换（如上色）不改变占据状态，只更新颜色统计
+    if (previous && voxel) {
+      result.push(voxel);
+      index.set(voxel);
+      statsReplaceVoxel(stats, previous, voxel);
+      return;
+    }
+    if (previous) {
+      index.delete(cellOf(previous.position));
+      statsRemoveVoxel(stats, index, previous);
+    }
     if (voxel) {
-      console.log(`设置悬停体素: 位置=${voxel.position.toArray()}`);
-    } else if (get().hoveredVoxel) {
-      console.log('清除悬停体素');
+      result.push(voxel);
+      index.set(voxel);
+      statsAddVoxel(stats, index, voxel);
     }
-    set({ hoveredVoxel: voxel });
-  },
-  
-  // 设置选中的面
-  setSelectedFace: (face) => {
-    if (face) {
-      console.log(`设置选中面: 方向=${face.normal.toArray()}`);
-    } else if (get().selectedFace) {
-      console.log('清除选中面');
+  });
+  return result;
+};
+
+// 两个体素的颜色和材质是否相同（油漆桶的区域判定）
+const isSameSurface = (a: Voxel, b: Voxel): boolean => a.color === b.color && a.material === b.material;
+
+// 遍历两个对角格点之间（含两端）的所有格点
+const forEachCellInBox = (from: Vector3, to: Vector3, callback: (cell: Cell) => void) => {
+  const [x0, y0, z0] = cellOf(from);
+  const [x1, y1, z1] = cellOf(to);
+  for (let x = Math.min(x0, x1); x <= Math.max(x0, x1); x++) {
+    for (let y = Math.min(y0, y1); y <= Math.max(y0, y1); y++) {
+      for (let z = Math.min(z0, z1); z <= Math.max(z0, z1); z++) {
+        callback([x, y, z]);
+      }
     }
-    set({ selectedFace: face });
-  },
-  
-  // 设置工具模式
-  setToolMode: (mode) => {
-    console.log(`工具模式切换: ${get().toolMode} -> ${mode}`);
-    set({ toolMode: mode });
-  },
-  
-  // 添加新体素
-  addVoxel: (voxel) => set((state) => {
-    // 检查该位置是否已存在体素
-    const exists = state.voxels.some((v) => isSamePosition(v.position, voxel.position));
-    
-    if (!exists) {
-      // 添加成功
-      return { voxels: [...state.voxels, {
-        position: new Vector3(voxel.position.x, voxel.position.y, voxel.position.z),
-        color: voxel.color
-      }] };
+  }
+};
+
+// 为原地更新过的空间索引生成新的引用（共享底层数据），便于 React 依赖检测
+const withNewIdentity = (index: VoxelIndex): VoxelIndex => ({ ...index });
+
+// 将命令压入栈中，超过上限时丢弃最早的命令
+const pushBounded = (stack: HistoryCommand[], command: HistoryCommand): HistoryCommand[] => {
+  const next = [...stack, command];
+  return next.length > MAX_HISTORY ? next.slice(next.length - MAX_HISTORY) : next;
+};
+
+// 正在进行的批量编辑 - 批量内的所有变更合并为一个历史步骤
+let pendingBatch: {
+  label: string;
+  depth: number;
+  before: Map<string, Voxel | null>;
+  after: Map<string, Voxel | null>;
+} | null = null;
+
+// 创建状态存储
+export const useStore = create<StoreState>((set, get) => {
+  // 应用一次编辑并记录到历史中（批量编辑期间先暂存）
+  // 未指定图层或材质的新体素使用当前图层和当前材质
+  // 按整次编辑检查：只要有变更涉及隐藏或锁定图层中的体素，或涉及剖切面外（不可见）的格点，整次编辑都不执行并提示用户，
+  // 避免只执行一部分（如移动时删除了源体素却没有写入目标格点）；只作用于可编辑体素的工具应在调用前自行过滤
+  // replacesModel 为替换整个模型（导入、重置），此时不检查图层和剖切面；返回 false 表示编辑被拒绝
+  const applyEdit = (label: string, rawChanges: CellChange[], replacesModel = false): boolean => {
+    const { activeLayer, activeMaterial, layers, section } = get();
+    const editable = getEditableLayerIds(layers);
+    const changes = rawChanges.map(change => change.after && (change.after.layer === undefined || change.after.material === undefined)
+      ? { ...change, after: { ...change.after, layer: change.after.layer ?? activeLayer,
+          material: change.after.material ?? activeMaterial } }
+      : change);
+    const blocked = !replacesModel && changes.some(change =>
+      (change.before && !editable.has(change.before.layer ?? '')) ||
+      (change.after && !editable.has(change.after.layer ?? '')));
+    if (blocked) {
+      window.alert(`无法${label}：涉及隐藏或锁定图层中的体素`);
+      return false;
     }
-    // 添加失败（位置已存在体素）
-    return state;
-  }),
-  
-  // 移除体素
-  removeVoxel: (position) => set((state) => {
-    const filteredVoxels = state.voxels.filter(
-      (voxel) => !isSamePosition(voxel.position, position)
-    );
-    return { voxels: filteredVoxels };
-  }),
-  
-  // 推拉面（将会复制整个面并移动）
-  pushPullFace: (normal, distance) => set((state) => {
-    // 正常化距离，确保是体素大小的整数倍
-    const normalizedDistance = Math.round(distance / 0.3) * 0.3;
-    
-    // 如果距离为0，不做任何操作
-    if (normalizedDistance === 0) return state;
-    
-    // 如果选中的面为空，无法执行推拉操作
-    if (!state.selectedFace || !state.hoveredVoxel) return state;
-    
-    // 获取法向量和所选面的位置
-    const faceNormal = state.selectedFace.normal;
-    const facePosition = state.hoveredVoxel.position;
-    
-    // 计算平面方程：ax + by + cz + d = 0
-    const a = faceNormal.x;
-    const b = faceNormal.y;
-    const c = faceNormal.z;
-    const d = -(a * facePosition.x + b * facePosition.y + c * facePosition.z);
-    
-    // 找出同一平面上的所有体素
-    const voxelsInPlane: Voxel[] = [];
-    
-    // 查找在同一平面上且没有被其他体素覆盖的表面体素
-    state.voxels.forEach(voxel => {
-      // 计算体素到平面的距离，判断是否在同一平面上
-      const distToPlane = Math.abs(a * voxel.position.x + b * voxel.position.y + c * voxel.position.z + d);
-      
-      if (distToPlane < 0.01) {
-        // 检查在法线方向上是否有其他体素覆盖
-        const checkPos = new Vector3().copy(voxel.position).add(
-          new Vector3().copy(faceNormal).multiplyScalar(0.3)
-        );
-        
-        const hasNeighbor = state.voxels.some(v => 
-          Math.abs(v.position.x - checkPos.x) < 0.01 && 
-          Math.abs(v.position.y - checkPos.y) < 0.01 && 
-          Math.abs(v.position.z - checkPos.z) < 0.01
-        );
-        
-        // 如果没有邻居体素覆盖，则这个是表面体素
-        if (!hasNeighbor) {
-          voxelsInPlane.push(voxel);
+    if (!replacesModel && changes.some(change => isCellClipped(parseCellKey(change.key), section))) {
+      window.alert(`无法${label}：涉及剖切面外被隐藏的格点`);
+      return false;
+    }
+    if (changes.length === 0) return true;
+    
+    const state = get();
+    const voxels = applyChanges(state.voxels, state.voxelIndex, state.stats, changes, 'after');
+    
+    if (pendingBatch) {
+      changes.forEach(change => {
+        // 只记录格点在批量开始前的第一次状态
+        if (!pendingBatch!.before.has(change.key)) {
+          pendingBatch!.before.set(change.key, change.before);
         }
-      }
+        pendingBatch!.after.set(change.key, change.after);
+      });
+      set({ voxels, voxelIndex: withNewIdentity(state.voxelIndex), stats: withNewStats(state.stats) });
+      return true;
+    }
+    
+    set({
+      voxels,
+      voxelIndex: withNewIdentity(state.voxelIndex),
+      stats: withNewStats(state.stats),
+      undoStack: pushBounded(state.undoStack, { label, changes }),
+      redoStack: [],
+      canUndo: true,
+      canRedo: false
+    });
+    return true;
+  };
+  
+  // 对称编辑：将变更镜像到所有启用的对称面另一侧，与原变更作为同一次编辑应用
+  // 镜像沿用原变更的类型：添加只作用于空格点，删除和上色只作用于已有体素；返回 false 表示编辑被拒绝
+  const applySymmetricEdit = (label: string, changes: CellChange[]): boolean => {
+    const { symmetry, voxelIndex } = get();
+    if (!hasSymmetry(symmetry)) {
+      return applyEdit(label, changes);
+    }
+    
+    const result = new Map<string, CellChange>();
+    changes.forEach(change => {
+      const cell = cellToPosition(parseCellKey(change.key));
+      if (symmetry.onPlane === 'skip' && isOnSymmetryPlane(cell, symmetry)) return;
+      result.set(change.key, change);
     });
     
-    // 如果未找到同平面体素，不进行操作
-    if (voxelsInPlane.length === 0) return state;
+    // 原变更优先，镜像落在已变更的格点上时忽略
+    Array.from(result.values()).forEach(change => {
+      getMirrorImages(cellToPosition(parseCellKey(change.key)), symmetry).forEach(image => {
+        const key = positionKey(image);
+        if (result.has(key)) return;
+        const existing = voxelIndex.get(cellOf(image)) ?? null;
+        if (!change.before && existing) return;
+        if (change.before && !existing) return;
+        // 镜像落在隐藏或锁定图层的体素上或剖切面外时跳过，不影响原变更
+        if (existing && !get().isVoxelEditable(existing)) return;
+        if (isCellClipped(cellOf(image), get().section)) return;
+        // 镜像添加的体素与原体素在同一图层，镜像上色保留目标体素的图层；颜色和材质与原变更一致
+        result.set(key, {
+          key,
+          before: existing,
+          after: change.after ? { position: image, color: change.after.color, layer: existing?.layer ?? change.after.layer,
+            material: change.after.material } : null
+        });
+      });
+    });
+    
+    return applyEdit(label, Array.from(result.values()));
+  };
+  
+  // 初始模型不经过 applyEdit，直接放入默认图层并使用默认材质
+  const initialVoxels = createInitialVoxels().map(voxel => ({ ...voxel, layer: DEFAULT_LAYER_ID, material: DEFAULT_MATERIAL_ID }));
+  const initialIndex = createVoxelIndex(initialVoxels);
+  
+  return {
+    voxels: initialVoxels,
+    voxelIndex: initialIndex,
+    stats: createModelStats(initialIndex, initialVoxels),
+    hoveredVoxel: null,
+    selectedFace: null,
+    toolMode: 'add',
+    toolModeStack: [],
+    hoveredPlanarVoxels: [],
+    undoStack: [],
+    redoStack: [],
+    canUndo: false,
+    canRedo: false,
+    voxelSize: DEFAULT_VOXEL_SIZE_MM,
+    activeColor: DEFAULT_COLOR,
+    recentColors: [DEFAULT_COLOR],
+    pushPullColorMode: 'inherit',
+    camera: null,
+    cameraVersion: 0,
+    importPreview: null,
+    selection: new Set(),
+    clipboard: [],
+    pasteBuffer: null,
+    pasteLabel: '粘贴',
+    pasteOverwrite: false,
+    pickingLine: false,
+    lineStart: null,
+    symmetry: {
+      axes: { x: false, y: false, z: false },
+      plane: new Vector3(0.5, 0, 0.5),
+      onPlane: 'once'
+    },
+    layers: createDefaultLayers(),
+    activeLayer: DEFAULT_LAYER_ID,
+    section: { enabled: false, axis: 'y', position: 0, flip: false },
+    materials: PRESET_MATERIALS,
+    activeMaterial: DEFAULT_MATERIAL_ID,
+    keymap: loadKeymap(),
+    showShortcuts: false,
+    showStats: false,
+
+    // 设置悬停的体素
+    setHoveredVoxel: (voxel) => {
+      if (voxel) {
+        console.log(`设置悬停体素: 位置=${voxel.position.toArray()}`);
+      } else if (get().hoveredVoxel) {
+        console.log('清除悬停体素');
+      }
+      set({ hoveredVoxel: voxel });
+    },
+  
+    // 设置选中的面
+    setSelectedFace: (face) => {
+      if (face) {
+        console.log(`设置选中面: 方向=${face.normal.toArray()}`);
+      } else if (get().selectedFace) {
+        console.log('清除选中面');
+      }
+      set({ selectedFace: face });
+    },
+  
+    // 设置工具模式，手动切换工具后不再恢复临时切换前的工具
+    setToolMode: (mode) => {
+      console.log(`工具模式切换: ${get().toolMode} -> ${mode}`);
+      // 离开选择工具时放弃未完成的放置
+      set(mode === 'select'
+        ? { toolMode: mode, toolModeStack: [] }
+        : { toolMode: mode, toolModeStack: [], pasteBuffer: null, pickingLine: false, lineStart: null });
+    },
     
-    let updatedVoxels = [...state.voxels];
+    // 临时切换工具，记住当前工具以便恢复
+    pushToolMode: (mode) => {
+      const { toolMode, toolModeStack } = get();
+      get().setToolMode(mode);
+      set({ toolModeStack: [...toolModeStack, toolMode] });
+    },
     
-    // 根据推拉方向执行不同操作
-    if (normalizedDistance > 0) {
-      // 向外推 - 添加新体素
+    // 结束临时切换，恢复之前的工具
+    popToolMode: () => {
+      const { toolModeStack } = get();
+      const previous = toolModeStack[toolModeStack.length - 1];
+      if (previous === undefined) return;
+      get().setToolMode(previous);
+      set({ toolModeStack: toolModeStack.slice(0, -1) });
+    },
+  
+    // 添加新体素
+    addVoxel: (voxel) => {
+      // 检查该位置是否已存在体素
+      const exists = get().voxelIndex.has(cellOf(voxel.position));
+    
+      // 添加失败（位置已存在体素）
+      if (exists) return;
+    
+      applySymmetricEdit('添加体素', [{
+        key: positionKey(voxel.position),
+        before: null,
+        after: { ...voxel, position: new Vector3(voxel.position.x, voxel.position.y, voxel.position.z) }
+      }]);
+    },
+  
+    // 移除体素
+    removeVoxel: (position) => {
+      const existing = get().voxelIndex.get(cellOf(position));
+      if (!existing) return;
+    
+      applySymmetricEdit('删除体素', [{
+        key: positionKey(existing.position),
+        before: existing,
+        after: null
+      }]);
+    },
+  
+    // 推拉所选面（悬停体素上的选中面，沿其法线），layers 为推拉的层数，正数向外推，负数向内拉
+    // 默认只推拉与所选面在同一平面上相连的区域，wholePlane 时推拉整个平面
+    pushPullFace: (layers, wholePlane = false) => {
+      const state = get();
+    
+      // 层数必须是整数
+      const normalizedLayers = Math.round(layers);
+    
+      // 如果层数为0，不做任何操作
+      if (normalizedLayers === 0) return;
+    
+      // 如果选中的面为空，无法执行推拉操作
+      if (!state.selectedFace || !state.hoveredVoxel) return;
+    
+      // 获取法向量和所选面的位置
+      const faceNormal = state.selectedFace.normal;
+      const facePosition = state.hoveredVoxel.position;
+    
+      // 通过空间索引找出同一平面上且没有被其他体素覆盖的表面体素，隐藏或锁定图层中的面不参与推拉
+      const voxelsInPlane = wholePlane
+        ? findExposedVoxelsInPlane(state.voxelIndex, facePosition, faceNormal).filter(state.isVoxelEditable)
+        : findConnectedExposedRegion(state.voxelIndex, facePosition, faceNormal, state.isVoxelEditable);
       
-      // 创建新的体素列表
-      const newVoxels: Voxel[] = [];
+      get().pushPullVoxels(voxelsInPlane, faceNormal, normalizedLayers);
+    },
+    
+    // 沿法线推拉一组表面体素，所有层的变更作为一次编辑应用；返回 false 表示推拉被拒绝
+    pushPullVoxels: (voxels, normal, layers) => {
+      const state = get();
+      const normalizedLayers = Math.round(layers);
+      if (normalizedLayers === 0 || voxels.length === 0) return true;
+      
+      const changes = new Map<string, CellChange>();
       
       // 计算推拉的层数
-      const steps = Math.round(Math.abs(normalizedDistance) / 0.3);
+      const steps = Math.abs(normalizedLayers);
       
-      // 为每个面上的体素，向外推出steps层新体素
-      voxelsInPlane.forEach(voxel => {
+      voxels.forEach(voxel => {
+        const cell = cellOf(voxel.position);
         for (let i = 1; i <= steps; i++) {
-          const newPosition = new Vector3().copy(voxel.position).add(
-            new Vector3().copy(faceNormal).multiplyScalar(i * 0.3)
-          );
-          
-          // 检查新位置是否已有体素
-          const exists = updatedVoxels.some(v => 
-            Math.abs(v.position.x - newPosition.x) < 0.01 && 
-            Math.abs(v.position.y - newPosition.y) < 0.01 && 
-            Math.abs(v.position.z - newPosition.z) < 0.01
-          );
-          
-          // 如果位置空闲，添加新体素
-          if (!exists) {
-            newVoxels.push({
-              position: newPosition,
-              color: voxel.color
-            });
+          if (normalizedLayers > 0) {
+            // 向外推 - 如果位置空闲，添加新体素
+            const newCell = offsetCell(cell, normal, i);
+            const key = positionKey(cellToPosition(newCell));
+            if (!state.voxelIndex.has(newCell) && !changes.has(key)) {
+              changes.set(key, {
+                key,
+                before: null,
+                after: {
+                  position: cellToPosition(newCell),
+                  color: state.getPushPullColor(voxel.color),
+                  // 继承源面颜色时也继承材质，否则使用当前材质
+                  material: state.pushPullColorMode === 'inherit' ? voxel.material : undefined
+                }
+              });
+            }
+          } else {
+            // 向内拉 - 删除该位置的体素
+            const existing = state.voxelIndex.neighbor(cell, normal, -i);
+            if (existing && state.isVoxelEditable(existing)) {
+              const key = positionKey(existing.position);
+              changes.set(key, { key, before: existing, after: null });
+            }
           }
         }
       });
       
-      // 合并原始体素和新创建的体素
-      updatedVoxels = [...updatedVoxels, ...newVoxels];
+      return applySymmetricEdit('推拉', Array.from(changes.values()));
+    },
+  
+    // 重置世界
+    resetWorld: () => {
+      get().replaceVoxels(createInitialVoxels(get().activeColor), '重置');
+    },
+
+    // 设置悬停平面体素
+    setHoveredPlanarVoxels: (voxels) => {
+      if (voxels.length > 0) {
+        console.log(`设置悬停平面体素，数量=${voxels.length}`);
+      } else if (get().hoveredPlanarVoxels.length > 0) {
+        console.log('清除悬停平面体素');
+      }
+      set({ hoveredPlanarVoxels: voxels });
+    },
+  
+    // 设置体素的实际尺寸（毫米），只影响尺寸显示和导出，不改变格点坐标
+    setVoxelSize: (size) => {
+      if (!(size > 0) || !Number.isFinite(size)) return;
+      console.log(`体素尺寸: ${get().voxelSize}mm -> ${size}mm`);
+      set({ voxelSize: size });
+    },
+  
+    // 设置当前颜色；取色器拖动时会连续调用，因此不加入最近使用列表
+    setActiveColor: (color) => {
+      set({ activeColor: color.toLowerCase() });
+    },
+  
+    // 将当前颜色加入最近使用列表（选定颜色后调用，如关闭取色器或点击色块）
+    commitRecentColor: () => {
+      const { activeColor } = get();
+      const recentColors = [activeColor, ...get().recentColors.filter(c => c !== activeColor)]
+        .slice(0, MAX_RECENT_COLORS);
+      set({ recentColors });
+    },
+  
+    // 设置推拉新体素的颜色来源
+    setPushPullColorMode: (mode) => {
+      console.log(`推拉颜色模式: ${mode}`);
+      set({ pushPullColorMode: mode });
+    },
+  
+    // 用指定颜色和当前材质重新着色指定位置的体素
+    paintVoxel: (position, color) => {
+      const { voxelIndex, activeMaterial } = get();
+      const existing = voxelIndex.get(cellOf(position));
+      if (!existing || (existing.color === color && existing.material === activeMaterial)) return;
+      
+      applySymmetricEdit('上色', [{
+        key: positionKey(existing.position),
+        before: existing,
+        after: { ...existing, color, material: activeMaterial }
+      }]);
+    },
+  
+    // 油漆桶：用指定颜色和当前材质重新着色与起点同色同材质、面相连的所有可编辑体素
+    fillColor: (position, color) => {
+      const { voxelIndex, activeMaterial } = get();
+      const start = voxelIndex.get(cellOf(position));
+      if (!start || (start.color === color && start.material === activeMaterial)) return;
       
-    } else if (normalizedDistance < 0) {
-      // 向内拉 - 删除体素
+      const region = findConnectedRegion(voxelIndex, cellOf(position),
+        voxel => isSameSurface(voxel, start) && get().isVoxelEditable(voxel));
+      console.log(`油漆桶: 体素数量=${region.length}`);
+      applyEdit('油漆桶', region.map(voxel => ({
+        key: positionKey(voxel.position),
+        before: voxel,
+        after: { ...voxel, color, material: activeMaterial }
+      })));
+    },
+  
+    // 表面油漆桶：只重新着色同一平面上与起点同色同材质、面相连的可编辑外露体素
+    fillFaceColor: (position, normal, color) => {
+      const { voxelIndex, activeMaterial } = get();
+      const start = voxelIndex.get(cellOf(position));
+      if (!start || (start.color === color && start.material === activeMaterial)) return;
       
-      // 计算拉入的层数
-      const steps = Math.round(Math.abs(normalizedDistance) / 0.3);
+      const region = findConnectedExposedRegion(voxelIndex, position, normal,
+        voxel => isSameSurface(voxel, start) && get().isVoxelEditable(voxel));
+      console.log(`表面油漆桶: 体素数量=${region.length}`);
+      applyEdit('表面油漆桶', region.map(voxel => ({
+        key: positionKey(voxel.position),
+        before: voxel,
+        after: { ...voxel, color, material: activeMaterial }
+      })));
+    },
+  
+    // 将模型中所有 from 颜色的可编辑体素替换为 to 颜色
+    replaceColor: (from, to) => {
+      const source = from.toLowerCase();
+      const target = to.toLowerCase();
+      if (source === target) return;
       
-      // 记录要删除的体素位置
-      const positionsToRemove = new Set<string>();
+      const changes: CellChange[] = [];
+      get().voxels.forEach(voxel => {
+        if (voxel.color.toLowerCase() !== source || !get().isVoxelEditable(voxel)) return;
+        changes.push({ key: positionKey(voxel.position), before: voxel, after: { ...voxel, color: target } });
+      });
+      console.log(`替换颜色: ${source} -> ${target}, 体素数量=${changes.length}`);
+      applyEdit('替换颜色', changes);
+    },
+  
+    // 吸取悬停体素的颜色和材质作为当前颜色和当前材质
+    sampleHoveredColor: () => {
+      const { hoveredVoxel, voxelIndex } = get();
+      if (!hoveredVoxel) return;
       
-      // 对每个面上的体素，向内查找并标记要删除的体素
-      voxelsInPlane.forEach(voxel => {
-        for (let i = 1; i <= steps; i++) {
-          const checkPosition = new Vector3().copy(voxel.position).add(
-            new Vector3().copy(faceNormal).multiplyScalar(-i * 0.3)
-          );
-          
-          // 检查该位置是否有体素，如果有则标记删除
-          state.voxels.forEach(existingVoxel => {
-            if (Math.abs(existingVoxel.position.x - checkPosition.x) < 0.01 && 
-                Math.abs(existingVoxel.position.y - checkPosition.y) < 0.01 && 
-                Math.abs(existingVoxel.position.z - checkPosition.z) < 0.01) {
-              
-              // 使用字符串表示位置，便于Set去重
-              const posKey = `${existingVoxel.position.x},${existingVoxel.position.y},${existingVoxel.position.z}`;
-              positionsToRemove.add(posKey);
-            }
-          });
+      // 优先使用索引中的最新颜色，悬停状态中的颜色可能在上色后已过期
+      const voxel = voxelIndex.get(cellOf(hoveredVoxel.position));
+      const color = voxel?.color ?? hoveredVoxel.color;
+      console.log(`吸取颜色: ${color}`);
+      get().setActiveColor(color);
+      get().commitRecentColor();
+      if (voxel?.material !== undefined) {
+        get().setActiveMaterial(voxel.material);
+      }
+    },
+  
+    // 记录当前相机状态（由场景在视角变化后同步）
+    setCamera: (camera) => set({ camera }),
+  
+    // 获取需要保存到项目文件的数据
+    getProjectData: () => {
+      const { voxels, voxelSize, activeColor, recentColors, camera, layers, activeLayer, materials, activeMaterial } = get();
+      return { voxels, voxelSize, activeColor, recentColors, camera, layers, activeLayer, materials, activeMaterial };
+    },
+  
+    // 载入已校验的项目数据 - 一次性替换全部项目状态并清空历史记录
+    loadProject: (project) => {
+      pendingBatch = null;
+      console.log(`载入项目: 体素数量=${project.voxels.length}, 图层数量=${project.layers.length}, 体素尺寸=${project.voxelSize}mm`);
+      // 未指定图层或引用了不存在图层的体素放入当前图层，未指定材质或引用了不存在材质的体素使用默认材质
+      const layerIds = new Set(project.layers.map(layer => layer.id));
+      const materialIds = new Set(project.materials.map(material => material.id));
+      const voxels = project.voxels.map(voxel => {
+        const layer = voxel.layer !== undefined && layerIds.has(voxel.layer) ? voxel.layer : project.activeLayer;
+        const material = voxel.material !== undefined && materialIds.has(voxel.material) ? voxel.material : DEFAULT_MATERIAL_ID;
+        return layer === voxel.layer && material === voxel.material ? voxel : { ...voxel, layer, material };
+      });
+      const voxelIndex = createVoxelIndex(voxels);
+      set({
+        voxels,
+        voxelIndex,
+        stats: createModelStats(voxelIndex, voxels),
+        layers: project.layers,
+        activeLayer: project.activeLayer,
+        materials: project.materials,
+        activeMaterial: materialIds.has(project.activeMaterial) ? project.activeMaterial : DEFAULT_MATERIAL_ID,
+        voxelSize: project.voxelSize,
+        activeColor: project.activeColor,
+        recentColors: project.recentColors,
+        camera: project.camera,
+        cameraVersion: get().cameraVersion + 1,
+        hoveredVoxel: null,
+        selectedFace: null,
+        hoveredPlanarVoxels: [],
+        selection: new Set(),
+        pasteBuffer: null,
+        pickingLine: false,
+        lineStart: null,
+        undoStack: [],
+        redoStack: [],
+        canUndo: false,
+        canRedo: false
+      });
+    },
+  
+    // 新建项目
+    newProject: () => {
+      get().loadProject({
+        voxels: createInitialVoxels(),
+        voxelSize: DEFAULT_VOXEL_SIZE_MM,
+        activeColor: DEFAULT_COLOR,
+        recentColors: [DEFAULT_COLOR],
+        camera: null,
+        layers: createDefaultLayers(),
+        activeLayer: DEFAULT_LAYER_ID,
+        materials: PRESET_MATERIALS,
+        activeMaterial: DEFAULT_MATERIAL_ID
+      });
+    },
+  
+    // 用新的体素替换整个模型（如导入文件），作为一个可撤销的步骤；不受图层锁定、隐藏和剖切面限制，撤销时旧体素回到原图层
+    replaceVoxels: (voxels, label) => {
+      // 先清空所有格点，再放入新体素
+      const changes = new Map<string, CellChange>();
+      get().voxels.forEach(voxel => {
+        const key = positionKey(voxel.position);
+        changes.set(key, { key, before: voxel, after: null });
+      });
+      voxels.forEach(voxel => {
+        const key = positionKey(voxel.position);
+        changes.set(key, { key, before: changes.get(key)?.before ?? null, after: voxel });
+      });
+      console.log(`替换模型: ${label}, 体素数量=${voxels.length}`);
+      return applyEdit(label, Array.from(changes.values()), true);
+    },
+  
+    // 批量添加体素（跳过已被占据的格点），作为一个可撤销的步骤
+    addVoxels: (voxels, label) => {
+      const { voxelIndex } = get();
+      const changes = new Map<string, CellChange>();
+      voxels.forEach(voxel => {
+        const key = positionKey(voxel.position);
+        if (voxelIndex.has(cellOf(voxel.position)) || changes.has(key)) return;
+        changes.set(key, { key, before: null, after: voxel });
+      });
+      console.log(`批量添加: ${label}, 体素数量=${changes.size}`);
+      applyEdit(label, Array.from(changes.values()));
+    },
+  
+    // 用颜色填充两个对角格点之间的长方体（跳过已被占据的格点），作为一个可撤销的步骤
+    fillBox: (from, to, color) => {
+      const { voxelIndex } = get();
+      const changes: CellChange[] = [];
+      forEachCellInBox(from, to, cell => {
+        if (voxelIndex.has(cell)) return;
+        const position = cellToPosition(cell);
+        changes.push({ key: positionKey(position), before: null, after: { position, color } });
+      });
+      console.log(`填充长方体: 体素数量=${changes.length}`);
+      applyEdit('填充长方体', changes);
+    },
+  
+    // 删除两个对角格点之间长方体内的所有可编辑体素，作为一个可撤销的步骤
+    carveBox: (from, to) => {
+      const { voxelIndex } = get();
+      const changes: CellChange[] = [];
+      forEachCellInBox(from, to, cell => {
+        const existing = voxelIndex.get(cell);
+        if (existing && get().isVoxelEditable(existing)) {
+          changes.push({ key: positionKey(existing.position), before: existing, after: null });
+        }
+      });
+      console.log(`挖除长方体: 体素数量=${changes.length}`);
+      applyEdit('挖除长方体', changes);
+    },
+  
+    // 设置导入预览（确认前只显示，不写入模型）
+    setImportPreview: (voxels) => set({ importPreview: voxels }),
+  
+    // 更新选区
+    selectCells: (keys, mode) => {
+      const selection = new Set(mode === 'replace' ? [] : get().selection);
+      keys.forEach(key => {
+        if (mode === 'toggle' && selection.has(key)) {
+          selection.delete(key);
+        } else {
+          selection.add(key);
         }
       });
+      console.log(`选区更新: 数量=${selection.size}`);
+      set({ selection });
+    },
+  
+    // 清空选区
+    clearSelection: () => {
+      if (get().selection.size === 0) return;
+      console.log('清空选区');
+      set({ selection: new Set() });
+    },
+  
+    // 获取选区中仍然存在的体素（撤销等操作后选区可能包含空格点）
+    getSelectedVoxels: () => {
+      const { selection, voxelIndex } = get();
+      const voxels: Voxel[] = [];
+      selection.forEach(key => {
+        const voxel = voxelIndex.get(parseCellKey(key));
+        if (voxel) voxels.push(voxel);
+      });
+      return voxels;
+    },
+  
+    // 删除选中的体素
+    deleteSelection: () => {
+      const voxels = get().getSelectedVoxels();
+      if (!applyEdit('删除选区', voxels.map(voxel => ({ key: positionKey(voxel.position), before: voxel, after: null })))) return;
+      set({ selection: new Set() });
+    },
+  
+    // 复制选中的体素到剪贴板
+    copySelection: () => {
+      const voxels = get().getSelectedVoxels();
+      if (voxels.length === 0) return;
+      console.log(`复制选区: 数量=${voxels.length}`);
+      set({ clipboard: normalizeClipboard(voxels) });
+    },
+  
+    // 剪切 - 删除成功后放入剪贴板
+    cutSelection: () => {
+      const voxels = get().getSelectedVoxels();
+      if (voxels.length === 0) return;
+      if (!applyEdit('剪切', voxels.map(voxel => ({ key: positionKey(voxel.position), before: voxel, after: null })))) return;
+      console.log(`剪切选区: 数量=${voxels.length}`);
+      set({ clipboard: normalizeClipboard(voxels), selection: new Set() });
+    },
+  
+    // 复制选区并直接进入放置状态，不影响剪贴板
+    duplicateSelection: () => {
+      const voxels = get().getSelectedVoxels();
+      if (voxels.length === 0) return;
+      console.log(`复制副本: 数量=${voxels.length}`);
+      get().startPlacement(normalizeClipboard(voxels), '创建副本');
+    },
+  
+    // 平移选中的体素，目标格点上的其他体素会被覆盖；选区跟随移动
+    moveSelection: (offset) => {
+      const step = cellToPosition(cellOf(offset));
+      const voxels = get().getSelectedVoxels();
+      if (voxels.length === 0 || step.lengthSq() === 0) return;
       
-      // 过滤掉需要删除的体素
-      if (positionsToRemove.size > 0) {
-        updatedVoxels = state.voxels.filter(voxel => {
-          const posKey = `${voxel.position.x},${voxel.position.y},${voxel.position.z}`;
-          return !positionsToRemove.has(posKey);
-        });
+      const { voxelIndex } = get();
+      const changes = new Map<string, CellChange>();
+      // 先移走所有选中体素，再放到新位置，避免移动前后重叠的格点互相覆盖
+      voxels.forEach(voxel => {
+        const key = positionKey(voxel.position);
+        changes.set(key, { key, before: voxel, after: null });
+      });
+      const selection = new Set<string>();
+      voxels.forEach(voxel => {
+        const position = voxel.position.clone().add(step);
+        const key = positionKey(position);
+        const before = changes.get(key)?.before ?? voxelIndex.get(cellOf(position)) ?? null;
+        changes.set(key, { key, before, after: { ...voxel, position } });
+        selection.add(key);
+      });
+      
+      console.log(`移动选区: 偏移=${step.toArray()}`);
+      if (!applyEdit('移动', Array.from(changes.values()))) return;
+      set({ selection });
+    },
+  
+    // 开始放置剪贴板内容
+    startPaste: () => {
+      const { clipboard } = get();
+      if (clipboard.length === 0) return;
+      console.log(`开始粘贴: 数量=${clipboard.length}`);
+      get().startPlacement(clipboard, '粘贴');
+    },
+  
+    // 开始放置一组体素（位置相对于包围盒最小角），在选择工具中预览并点击确认
+    startPlacement: (voxels, label) => {
+      if (voxels.length === 0) return;
+      set({ toolMode: 'select', pasteBuffer: voxels, pasteLabel: label, pickingLine: false, lineStart: null });
+    },
+  
+    // 取消放置（粘贴、副本、形状或直线）
+    cancelPaste: () => set({ pasteBuffer: null, pickingLine: false, lineStart: null }),
+  
+    // 开始选取直线的两个端点
+    startLinePick: () => {
+      console.log('开始选取直线端点');
+      set({ toolMode: 'select', pasteBuffer: null, pickingLine: true, lineStart: null });
+    },
+  
+    // 选取直线端点：第一次记录起点，第二次用当前颜色生成直线并作为一个可撤销的步骤
+    pickLinePoint: (cell) => {
+      const { lineStart, activeColor } = get();
+      if (!lineStart) {
+        set({ lineStart: cell.clone() });
+        return;
       }
-    }
+      const voxels = bresenhamLine(lineStart, cell).map(position => ({ position, color: activeColor }));
+      set({ pickingLine: false, lineStart: null });
+      get().addVoxels(voxels, '直线');
+    },
+  
+    // 将粘贴内容放到 origin 处，作为一个可撤销的步骤；粘贴的体素成为新的选区
+    commitPaste: (origin) => {
+      const { pasteBuffer, pasteOverwrite, voxelIndex } = get();
+      if (!pasteBuffer) return;
+      
+      const changes: CellChange[] = [];
+      const selection = new Set<string>();
+      pasteBuffer.forEach(voxel => {
+        const position = voxel.position.clone().add(origin);
+        const key = positionKey(position);
+        const existing = voxelIndex.get(cellOf(position)) ?? null;
+        if (existing && !pasteOverwrite) return;
+        changes.push({ key, before: existing, after: { position, color: voxel.color, material: voxel.material } });
+        selection.add(key);
+      });
+      
+      console.log(`${get().pasteLabel}: 数量=${changes.length}, 跳过=${pasteBuffer.length - changes.length}`);
+      // 被拒绝时保留放置状态，可以换个位置再放
+      if (!applyEdit(get().pasteLabel, changes)) return;
+      set({ pasteBuffer: null, selection });
+    },
+  
+    // 设置粘贴时的冲突处理方式
+    setPasteOverwrite: (overwrite) => {
+      console.log(`粘贴冲突处理: ${overwrite ? '覆盖' : '跳过'}`);
+      set({ pasteOverwrite: overwrite });
+    },
+  
+    // 更新对称设置
+    setSymmetry: (settings) => {
+      const symmetry = { ...get().symmetry, ...settings };
+      console.log(`对称设置: 轴=${Object.entries(symmetry.axes).filter(([, on]) => on).map(([axis]) => axis).join('') || '无'}, ` +
+        `对称面=${symmetry.plane.toArray()}, 对称面上=${symmetry.onPlane}`);
+      set({ symmetry });
+    },
+  
+    // 将选区（无选区时为整个模型中的可编辑体素）镜像复制到对称面另一侧，覆盖目标格点，作为一个可撤销的步骤
+    // 目标格点上隐藏或锁定图层中的体素不会被覆盖
+    mirrorModel: (axis) => {
+      const { selection, voxels, voxelIndex, symmetry, isVoxelEditable } = get();
+      const source = selection.size > 0 ? get().getSelectedVoxels() : voxels.filter(isVoxelEditable);
+      
+      const changes = new Map<string, CellChange>();
+      source.forEach(voxel => {
+        const position = mirrorCell(voxel.position, axis, symmetry.plane);
+        const key = positionKey(position);
+        // 对称面上的体素镜像即自身
+        if (key === positionKey(voxel.position)) return;
+        const existing = voxelIndex.get(cellOf(position)) ?? null;
+        if (existing && existing.color === voxel.color && existing.material === voxel.material) return;
+        if (existing && !isVoxelEditable(existing)) return;
+        changes.set(key, { key, before: existing, after: { ...voxel, position } });
+      });
+      
+      console.log(`镜像${selection.size > 0 ? '选区' : '模型'}: 轴=${axis}, 体素数量=${changes.size}`);
+      // 选区扩展到包含镜像后的体素
+      if (applyEdit('镜像', Array.from(changes.values())) && selection.size > 0) {
+        const next = new Set(selection);
+        source.forEach(voxel => next.add(positionKey(mirrorCell(voxel.position, axis, symmetry.plane))));
+        set({ selection: next });
+      }
+    },
+  
+    // 新建图层，放在当前图层之上并设为当前图层
+    addLayer: () => {
+      const { layers, activeLayer } = get();
+      const layer = createLayer(layers);
+      const index = Math.max(0, layers.findIndex(l => l.id === activeLayer));
+      console.log(`新建图层: ${layer.name}`);
+      set({ layers: [...layers.slice(0, index), layer, ...layers.slice(index)], activeLayer: layer.id });
+    },
     
-    return { voxels: updatedVoxels };
-  }),
-  
-  // 重置世界
-  resetWorld: () => set({
-    voxels: [
-      { position: new Vector3(0, 0, 0), color: '#1e88e5' },
-      { position: new Vector3(0.3, 0, 0), color: '#1e88e5' },
-      { position: new Vector3(0, 0, 0.3), color: '#1e88e5' },
-      { position: new Vector3(0.3, 0, 0.3), color: '#1e88e5' },
-    ]
-  }),
-
-  // 设置悬停平面体素
-  setHoveredPlanarVoxels: (voxels) => {
-    if (voxels.length > 0) {
-      console.log(`设置悬停平面体素，数量=${voxels.length}`);
-    } else if (get().hoveredPlanarVoxels.length > 0) {
-      console.log('清除悬停平面体素');
+    // 设置当前图层
+    setActiveLayer: (id) => {
+      if (!get().layers.some(layer => layer.id === id)) return;
+      console.log(`当前图层: ${id}`);
+      set({ activeLayer: id });
+    },
+    
+    // 重命名图层，空名称忽略
+    renameLayer: (id, name) => {
+      const trimmed = name.trim();
+      if (!trimmed) return;
+      set({ layers: get().layers.map(layer => layer.id === id ? { ...layer, name: trimmed } : layer) });
+    },
+    
+    // 显示或隐藏图层，隐藏图层中的体素同时从选区中移除
+    setLayerVisible: (id, visible) => {
+      console.log(`图层 ${id}: ${visible ? '显示' : '隐藏'}`);
+      const { layers, selection, voxelIndex } = get();
+      const nextSelection = visible ? selection : new Set(
+        Array.from(selection).filter(key => voxelIndex.get(parseCellKey(key))?.layer !== id)
+      );
+      set({
+        layers: layers.map(layer => layer.id === id ? { ...layer, visible } : layer),
+        selection: nextSelection,
+        hoveredVoxel: null,
+        selectedFace: null
+      });
+    },
+    
+    // 锁定或解锁图层
+    setLayerLocked: (id, locked) => {
+      console.log(`图层 ${id}: ${locked ? '锁定' : '解锁'}`);
+      set({ layers: get().layers.map(layer => layer.id === id ? { ...layer, locked } : layer) });
+    },
+    
+    // 调整图层顺序，offset 为负时上移
+    moveLayer: (id, offset) => {
+      const layers = [...get().layers];
+      const from = layers.findIndex(layer => layer.id === id);
+      const to = from + offset;
+      if (from < 0 || to < 0 || to >= layers.length) return;
+      const [layer] = layers.splice(from, 1);
+      layers.splice(to, 0, layer);
+      set({ layers });
+    },
+    
+    // 将图层合并到目标图层并删除该图层；历史记录中的体素同步改为目标图层，撤销不会恢复被合并的图层
+    mergeLayer: (id, targetId) => {
+      if (pendingBatch || id === targetId) return;
+      const { layers, voxels, voxelIndex, undoStack, redoStack, activeLayer } = get();
+      const source = layers.find(layer => layer.id === id);
+      if (!source || !layers.some(layer => layer.id === targetId)) return;
+      
+      const remap = (voxel: Voxel | null): Voxel | null =>
+        voxel && voxel.layer === id ? { ...voxel, layer: targetId } : voxel;
+      const remapStack = (stack: HistoryCommand[]): HistoryCommand[] => stack.map(command => ({
+        ...command,
+        changes: command.changes.map(change => ({ ...change, before: remap(change.before), after: remap(change.after) }))
+      }));
+      
+      let count = 0;
+      const merged = voxels.map(voxel => {
+        if (voxel.layer !== id) return voxel;
+        const next = { ...voxel, layer: targetId };
+        voxelIndex.set(next);
+        count++;
+        return next;
+      });
+      
+      console.log(`合并图层: ${source.name} -> ${targetId}, 体素数量=${count}`);
+      set({
+        voxels: merged,
+        voxelIndex: withNewIdentity(voxelIndex),
+        layers: layers.filter(layer => layer.id !== id),
+        activeLayer: activeLayer === id ? targetId : activeLayer,
+        undoStack: remapStack(undoStack),
+        redoStack: remapStack(redoStack)
+      });
+    },
+    
+    // 体素是否可见且位于未锁定的图层中
+    isVoxelEditable: (voxel) => {
+      const layer = get().layers.find(l => l.id === voxel.layer);
+      return !!layer && !layer.locked && get().isVoxelVisible(voxel);
+    },
+    
+    // 更新剖切设置，剖切面外的体素从选区中移除
+    setSection: (settings) => {
+      const section = { ...get().section, ...settings, position: Math.round(settings.position ?? get().section.position) };
+      console.log(`剖切: ${section.enabled ? `${section.axis}=${section.position}${section.flip ? ' (反向)' : ''}` : '关闭'}`);
+      const selection = new Set(Array.from(get().selection).filter(key => !isCellClipped(parseCellKey(key), section)));
+      set({ section, selection, hoveredVoxel: null, selectedFace: null });
+    },
+    
+    // 体素是否可见（所在图层未隐藏且不在剖切面外）
+    isVoxelVisible: (voxel) => {
+      const { layers, section } = get();
+      const layer = layers.find(l => l.id === voxel.layer);
+      return !!layer && layer.visible && !isCellClipped(cellOf(voxel.position), section);
+    },
+    
+    // 设置当前材质
+    setActiveMaterial: (id) => {
+      if (!get().materials.some(material => material.id === id)) return;
+      console.log(`当前材质: ${id}`);
+      set({ activeMaterial: id });
+    },
+    
+    // 以当前材质为模板新建自定义材质，并设为当前材质
+    addMaterial: () => {
+      const { materials, activeMaterial } = get();
+      const template = materials.find(material => material.id === activeMaterial) ?? materials[0];
+      const material = createCustomMaterial(materials, template);
+      console.log(`新建材质: ${material.name}`);
+      set({ materials: [...materials, material], activeMaterial: material.id });
+    },
+    
+    // 修改自定义材质的参数，预设材质不可修改；使用该材质的体素随之更新，不记录到历史中
+    updateMaterial: (id, patch) => {
+      if (isPresetMaterial(id)) return;
+      // 空名称忽略
+      const name = patch.name?.trim();
+      set({ materials: get().materials.map(material => material.id === id
+        ? { ...material, ...patch, name: name || material.name, id }
+        : material) });
+    },
+    
+    // 设置操作的快捷键并保存到浏览器中
+    setShortcuts: (id, shortcuts) => {
+      console.log(`快捷键: ${id} = ${shortcuts.join(', ') || '无'}`);
+      const keymap = { ...get().keymap, [id]: shortcuts };
+      saveKeymap(keymap);
+      set({ keymap });
+    },
+    
+    // 恢复默认快捷键
+    resetKeymap: () => {
+      console.log('恢复默认快捷键');
+      const keymap = createDefaultKeymap();
+      saveKeymap(keymap);
+      set({ keymap });
+    },
+    
+    // 显示或隐藏快捷键速查表
+    setShowShortcuts: (show) => set({ showShortcuts: show }),
+    
+    // 切换性能监视器
+    toggleStats: () => set({ showStats: !get().showStats }),
+    
+    // 推拉产生的新体素颜色
+    getPushPullColor: (sourceColor) => {
+      const { pushPullColorMode, activeColor } = get();
+      return pushPullColorMode === 'active' ? activeColor : sourceColor;
+    },
+  
+    // 撤销上一步编辑
+    undo: () => {
+      // 批量编辑进行中时不允许撤销
+      if (pendingBatch) return;
+    
+      const { undoStack, redoStack, voxels, voxelIndex, stats } = get();
+      const command = undoStack[undoStack.length - 1];
+      if (!command) return;
+    
+      console.log(`撤销: ${command.label}`);
+      const nextUndo = undoStack.slice(0, -1);
+      set({
+        voxels: applyChanges(voxels, voxelIndex, stats, command.changes, 'before'),
+        voxelIndex: withNewIdentity(voxelIndex),
+        stats: withNewStats(stats),
+        undoStack: nextUndo,
+        redoStack: pushBounded(redoStack, command),
+        canUndo: nextUndo.length > 0,
+        canRedo: true
+      });
+    },
+  
+    // 重做上一步撤销的编辑
+    redo: () => {
+      if (pendingBatch) return;
+    
+      const { undoStack, redoStack, voxels, voxelIndex, stats } = get();
+      const command = redoStack[redoStack.length - 1];
+      if (!command) return;
+    
+      console.log(`重做: ${command.label}`);
+      const nextRedo = redoStack.slice(0, -1);
+      set({
+        voxels: applyChanges(voxels, voxelIndex, stats, command.changes, 'after'),
+        voxelIndex: withNewIdentity(voxelIndex),
+        stats: withNewStats(stats),
+        undoStack: pushBounded(undoStack, command),
+        redoStack: nextRedo,
+        canUndo: true,
+        canRedo: nextRedo.length > 0
+      });
+    },
+  
+    // 开始批量编辑，之后的编辑会合并为一个历史步骤（支持嵌套）
+    beginBatch: (label) => {
+      if (pendingBatch) {
+        pendingBatch.depth++;
+        return;
+      }
+      pendingBatch = { label, depth: 1, before: new Map(), after: new Map() };
+    },
+  
+    // 结束批量编辑，将合并后的变更记录为一个历史步骤
+    endBatch: () => {
+      if (!pendingBatch) return;
+    
+      pendingBatch.depth--;
+      if (pendingBatch.depth > 0) return;
+    
+      const batch = pendingBatch;
+      pendingBatch = null;
+    
+      // 过滤掉批量结束时又回到原状态的格点
+      const changes: CellChange[] = [];
+      batch.before.forEach((before, key) => {
+        const after = batch.after.get(key) ?? null;
+        if (before !== after) {
+          changes.push({ key, before, after });
+        }
+      });
+      if (changes.length === 0) return;
+    
+      console.log(`记录批量编辑: ${batch.label}, 格点数=${changes.length}`);
+      const { undoStack } = get();
+      set({
+        undoStack: pushBounded(undoStack, { label: batch.label, changes }),
+        redoStack: [],
+        canUndo: true,
+        canRedo: false
+      });
     }
-    set({ hoveredPlanarVoxels: voxels });
-  }
-})); 
\ No newline at end of file
+  };
+}); 
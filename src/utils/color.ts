@@ -0,0 +1,113 @@
+// 颜色工具函数
+
+// 调色板中的常用颜色
+export const PRESET_COLORS = [
+  '#1e88e5', '#e53935', '#43a047', '#fdd835', '#fb8c00', '#8e24aa',
+  '#00acc1', '#6d4c41', '#ffffff', '#9e9e9e', '#424242', '#000000'
+];
+
+// RGB 分量（0-255）
+export type RGB = [number, number, number];
+
+// 十六进制颜色转换为 RGB 分量
+export const hexToRgb = (hex: string): RGB => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+};
+
+// RGB 分量转换为小写十六进制颜色
+export const rgbToHex = (r: number, g: number, b: number): string => {
+  const clamp = (n: number) => Math.max(0, Math.min(255, Math.round(n)));
+  return '#' + [r, g, b].map(n => clamp(n).toString(16).padStart(2, '0')).join('');
+};
+
+// 两个颜色之间的距离平方
+export const colorDistanceSq = (a: RGB, b: RGB): number => {
+  const dr = a[0] - b[0];
+  const dg = a[1] - b[1];
+  const db = a[2] - b[2];
+  return dr * dr + dg * dg + db * db;
+};
+
+// 从调色板中找出与给定颜色最接近的一项
+export const nearestColor = (color: string, palette: string[]): string => {
+  const rgb = hexToRgb(color);
+  let best = palette[0];
+  let bestDistance = Infinity;
+  palette.forEach(candidate => {
+    const distance = colorDistanceSq(rgb, hexToRgb(candidate));
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = candidate;
+    }
+  });
+  return best;
+};
+
+// 中位切分法量化颜色 - counts 为每种颜色的使用次数，返回原颜色到量化后颜色的映射
+export const quantizeColors = (counts: Map<string, number>, maxColors: number): Map<string, string> => {
+  type Entry = { color: string; rgb: RGB; count: number };
+  const entries: Entry[] = Array.from(counts, ([color, count]) => ({ color, rgb: hexToRgb(color), count }));
+  const result = new Map<string, string>();
+  
+  // 颜色数量未超过上限时保持原样
+  if (entries.length <= maxColors) {
+    entries.forEach(entry => result.set(entry.color, entry.color));
+    return result;
+  }
+  
+  // 计算一组颜色在各通道上的范围
+  const channelRange = (box: Entry[], channel: number) => {
+    let min = 255;
+    let max = 0;
+    box.forEach(entry => {
+      min = Math.min(min, entry.rgb[channel]);
+      max = Math.max(max, entry.rgb[channel]);
+    });
+    return max - min;
+  };
+  
+  const boxes: Entry[][] = [entries];
+  while (boxes.length < maxColors) {
+    // 选出范围最大、且可以继续切分的颜色盒
+    let target = -1;
+    let targetChannel = 0;
+    let targetRange = 0;
+    boxes.forEach((box, i) => {
+      if (box.length < 2) return;
+      for (let channel = 0; channel < 3; channel++) {
+        const range = channelRange(box, channel);
+        if (range > targetRange) {
+          target = i;
+          targetChannel = channel;
+          targetRange = range;
+        }
+      }
+    });
+    if (target < 0) break;
+    
+    // 按使用次数的中位数切分
+    const box = boxes[target].sort((a, b) => a.rgb[targetChannel] - b.rgb[targetChannel]);
+    const total = box.reduce((sum, entry) => sum + entry.count, 0);
+    let accumulated = 0;
+    let split = 1;
+    for (let i = 0; i < box.length - 1; i++) {
+      accumulated += box[i].count;
+      split = i + 1;
+      if (accumulated >= total / 2) break;
+    }
+    boxes.splice(target, 1, box.slice(0, split), box.slice(split));
+  }
+  
+  // 每个颜色盒使用加权平均颜色作为代表色
+  boxes.forEach(box => {
+    const total = box.reduce((sum, entry) => sum + entry.count, 0);
+    const average = [0, 1, 2].map(channel =>
+      box.reduce((sum, entry) => sum + entry.rgb[channel] * entry.count, 0) / total
+    );
+    const representative = rgbToHex(average[0], average[1], average[2]);
+    box.forEach(entry => result.set(entry.color, representative));
+  });
+  
+  return result;
+};
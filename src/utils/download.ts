@@ -0,0 +1,13 @@
+// 触发浏览器下载文件
+export const downloadFile = (content: BlobPart, filename: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // 延迟释放，确保下载已开始
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,7 @@
+// 文件格式错误 - 导入或导出时发现文件内容无效，message 为可直接展示给用户的说明
+export class FormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FormatError';
+  }
+}
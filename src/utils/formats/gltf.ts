@@ -0,0 +1,53 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import type { Voxel } from '../../hooks/useStore';
+import { buildMaterialQuads, createVoxelLookup, quadsToGeometry } from '../meshing';
+import { VoxelMaterial, isTransparentMaterial } from '../materials';
+import { FormatError } from './formatError';
+
+// 导出为 GLB - 每种材质（自发光材质还按颜色）输出一个贪心合并后的网格，颜色以顶点颜色保存
+// glTF 以米为单位，每个格点的边长为体素尺寸（毫米）/ 1000
+export const exportGlb = async (voxels: Voxel[], voxelSize: number, materials: VoxelMaterial[]): Promise<ArrayBuffer> => {
+  if (voxels.length === 0) {
+    throw new FormatError('模型为空，无法导出');
+  }
+  
+  const materialsMap = new Map(materials.map(material => [material.id, material]));
+  const groups = buildMaterialQuads(voxels, createVoxelLookup(voxels), materialsMap);
+  const model = new THREE.Group();
+  model.name = 'voxel-model';
+  // 材质参数与场景中的体素保持一致
+  groups.forEach(({ key, material, emissiveColor, quads }) => {
+    const transparent = isTransparentMaterial(material);
+    const mesh = new THREE.Mesh(
+      quadsToGeometry(quads, voxelSize / 1000),
+      new THREE.MeshStandardMaterial({
+        name: material.name,
+        vertexColors: true,
+        roughness: material.roughness,
+        metalness: material.metalness,
+        emissive: emissiveColor ?? '#000000',
+        emissiveIntensity: material.emissive,
+        transparent,
+        opacity: material.opacity,
+        depthWrite: !transparent
+      })
+    );
+    mesh.name = `voxel-model-${key}`;
+    model.add(mesh);
+  });
+  
+  try {
+    const result = await new GLTFExporter().parseAsync(model, { binary: true });
+    if (!(result instanceof ArrayBuffer)) {
+      throw new FormatError('GLB 生成失败');
+    }
+    return result;
+  } finally {
+    model.children.forEach(child => {
+      const mesh = child as THREE.Mesh<THREE.BufferGeometry, THREE.Material>;
+      mesh.geometry.dispose();
+      mesh.material.dispose();
+    });
+  }
+};
@@ -0,0 +1,42 @@
+import * as THREE from 'three';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { FormatError } from './formatError';
+
+// 读取三角网格文件（STL/OBJ/GLB），用于体素化导入
+
+export interface LoadedMesh {
+  object: THREE.Object3D;
+  // 材质颜色是否可信：GLB 的材质来自文件，STL/OBJ（未带 MTL）的材质只是加载器的默认值
+  useMaterialColor: boolean;
+}
+
+// 支持的文件扩展名
+export const MESH_FILE_ACCEPT = '.stl,.obj,.glb';
+
+// 读取网格文件
+export const loadMeshFile = async (file: File): Promise<LoadedMesh> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  
+  switch (extension) {
+    case 'stl': {
+      const geometry = new STLLoader().parse(await file.arrayBuffer());
+      const mesh = new THREE.Mesh(geometry, new THREE.MeshStandardMaterial());
+      // STL 通常为 Z 轴向上，转换为场景的 Y 轴向上
+      mesh.rotation.x = -Math.PI / 2;
+      return { object: mesh, useMaterialColor: false };
+    }
+    case 'obj':
+      return { object: new OBJLoader().parse(await file.text()), useMaterialColor: false };
+    case 'glb': {
+      const buffer = await file.arrayBuffer();
+      const gltf = await new Promise<{ scene: THREE.Object3D }>((resolve, reject) => {
+        new GLTFLoader().parse(buffer, '', resolve, reject);
+      });
+      return { object: gltf.scene, useMaterialColor: true };
+    }
+    default:
+      throw new FormatError('不支持的文件类型，请选择 STL、OBJ 或 GLB 文件');
+  }
+};
@@ -0,0 +1,119 @@
+import type { Voxel } from '../../hooks/useStore';
+import { buildGreedyQuads, createSolidLookup, Quad } from '../meshing';
+import { findConnectedParts } from '../voxelIndex';
+import { hexToRgb } from '../color';
+import { FormatError } from './formatError';
+
+// Wavefront OBJ + MTL 导出
+// 单位为毫米（与 STL 一致），保持 Y 轴向上；每种颜色对应一个材质，外露面按颜色贪心合并
+
+// 对象划分方式：整个模型一个对象、每种颜色一个对象、每个不相连部件一个对象
+export type ObjGrouping = 'single' | 'color' | 'part';
+
+export interface ObjExportOptions {
+  // 体素尺寸（毫米）
+  voxelSize: number;
+  grouping: ObjGrouping;
+  // 文件名（不含扩展名），OBJ 通过它引用 MTL 文件
+  name: string;
+}
+
+export interface ObjExportResult {
+  obj: string;
+  mtl: string;
+}
+
+// 颜色对应的材质名
+const materialName = (color: string) => `color_${color.slice(1)}`;
+
+const formatNumber = (n: number) => String(Number(n.toFixed(6)) + 0);
+
+// 导出 OBJ 和对应的 MTL
+export const exportObj = (voxels: Voxel[], options: ObjExportOptions): ObjExportResult => {
+  if (voxels.length === 0) {
+    throw new FormatError('模型为空，无法导出');
+  }
+  
+  // 按划分方式生成命名对象
+  let objects: { name: string; quads: Quad[] }[];
+  if (options.grouping === 'part') {
+    objects = findConnectedParts(voxels).map((part, i) => ({
+      name: `part_${i + 1}`,
+      quads: buildGreedyQuads(part, createSolidLookup(part))
+    }));
+  } else {
+    const quads = buildGreedyQuads(voxels, createSolidLookup(voxels));
+    if (options.grouping === 'color') {
+      const byColor = new Map<string, Quad[]>();
+      quads.forEach(quad => {
+        const list = byColor.get(quad.color) ?? [];
+        list.push(quad);
+        byColor.set(quad.color, list);
+      });
+      objects = Array.from(byColor, ([color, list]) => ({ name: materialName(color), quads: list }));
+    } else {
+      objects = [{ name: options.name, quads }];
+    }
+  }
+  
+  const lines = [`# voxel model, units: mm`, `mtllib ${options.name}.mtl`];
+  
+  // 六个轴向法线
+  const normalIds = new Map<string, number>();
+  const normalLines: string[] = [];
+  const normalId = (normal: number[]) => {
+    const key = normal.join(' ');
+    let id = normalIds.get(key);
+    if (id === undefined) {
+      normalLines.push(`vn ${normal.map(formatNumber).join(' ')}`);
+      id = normalLines.length;
+      normalIds.set(key, id);
+    }
+    return id;
+  };
+  
+  // 顶点在所有对象间去重，索引从 1 开始
+  const vertexIds = new Map<string, number>();
+  const vertexLines: string[] = [];
+  const vertexId = (vertex: number[]) => {
+    const key = vertex.map(n => formatNumber(n * options.voxelSize)).join(' ');
+    let id = vertexIds.get(key);
+    if (id === undefined) {
+      vertexLines.push(`v ${key}`);
+      id = vertexLines.length;
+      vertexIds.set(key, id);
+    }
+    return id;
+  };
+  
+  const faceLines: string[] = [];
+  objects.forEach(object => {
+    faceLines.push(`o ${object.name}`);
+    // 同一对象内按材质分组输出面
+    const byColor = new Map<string, Quad[]>();
+    object.quads.forEach(quad => {
+      const list = byColor.get(quad.color) ?? [];
+      list.push(quad);
+      byColor.set(quad.color, list);
+    });
+    byColor.forEach((quads, color) => {
+      faceLines.push(`usemtl ${materialName(color)}`);
+      quads.forEach(quad => {
+        const n = normalId(quad.normal);
+        faceLines.push(`f ${quad.vertices.map(vertex => `${vertexId(vertex)}//${n}`).join(' ')}`);
+      });
+    });
+  });
+  
+  lines.push(...vertexLines, ...normalLines, ...faceLines);
+  
+  // 材质：漫反射颜色为体素颜色
+  const colors = Array.from(new Set(voxels.map(voxel => voxel.color))).sort();
+  const mtl = ['# voxel model materials'];
+  colors.forEach(color => {
+    const [r, g, b] = hexToRgb(color).map(n => formatNumber(n / 255));
+    mtl.push('', `newmtl ${materialName(color)}`, 'Ka 0 0 0', `Kd ${r} ${g} ${b}`, 'Ks 0 0 0', 'd 1', 'illum 1');
+  });
+  
+  return { obj: lines.join('\n') + '\n', mtl: mtl.join('\n') + '\n' };
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { Vector3 } from 'three';
+import type { Voxel } from '../../hooks/useStore';
+import { exportStl } from './stl';
+
+const voxelsAt = (cells: [number, number, number][]): Voxel[] =>
+  cells.map(([x, y, z], i) => ({ position: new Vector3(x, y, z), color: i % 2 ? '#ff0000' : '#00ff00' }));
+
+// 读取二进制 STL 中的三角形（顶点以 "x,y,z" 表示）
+const readTriangles = (data: Uint8Array) => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const count = view.getUint32(80, true);
+  const triangles: { keys: string[]; points: number[][] }[] = [];
+  for (let i = 0; i < count; i++) {
+    const offset = 84 + i * 50 + 12;
+    const points = [0, 1, 2].map(v => [0, 1, 2].map(axis => view.getFloat32(offset + (v * 3 + axis) * 4, true)));
+    triangles.push({ keys: points.map(p => p.join(',')), points });
+  }
+  return triangles;
+};
+
+// 检查网格封闭且为流形：每条有向边恰好出现一次，其反向边也恰好出现一次
+const expectClosedManifold = (voxels: Voxel[]) => {
+  const [file] = exportStl(voxels, { format: 'binary', voxelSize: 1, splitParts: false });
+  const triangles = readTriangles(file.data as Uint8Array);
+  const edges = new Map<string, number>();
+  triangles.forEach(({ keys }) => keys.forEach((from, i) => {
+    const edge = `${from}>${keys[(i + 1) % 3]}`;
+    edges.set(edge, (edges.get(edge) ?? 0) + 1);
+  }));
+
+  const bad = Array.from(edges.entries()).filter(([edge, count]) => {
+    const [from, to] = edge.split('>');
+    return count !== 1 || edges.get(`${to}>${from}`) !== 1;
+  });
+  expect(bad).toEqual([]);
+
+  // 朝向一致时，有符号体积等于体素个数（棱中点的内缩只带来极小的误差）
+  const volume = triangles.reduce((sum, { points: [a, b, c] }) =>
+    sum + (a[0] * (b[1] * c[2] - b[2] * c[1]) - a[1] * (b[0] * c[2] - b[2] * c[0]) + a[2] * (b[0] * c[1] - b[1] * c[0])) / 6, 0);
+  expect(volume).toBeCloseTo(voxels.length, 1);
+};
+
+describe('exportStl', () => {
+  it('单个体素为 12 个三角形的封闭网格', () => {
+    const voxels = voxelsAt([[0, 0, 0]]);
+    const [file] = exportStl(voxels, { format: 'binary', voxelSize: 1, splitParts: false });
+    expect(readTriangles(file.data as Uint8Array)).toHaveLength(12);
+    expectClosedManifold(voxels);
+  });
+
+  it('台阶形状产生的 T 形接缝补入顶点后仍然封闭', () => {
+    // 底层 3 格，中层 2 格，顶层 1 格：侧面合并出的矩形边上有相邻矩形的角点
+    expectClosedManifold(voxelsAt([
+      [0, 0, 0], [1, 0, 0], [2, 0, 0],
+      [0, 1, 0], [1, 1, 0],
+      [0, 2, 0]
+    ]));
+  });
+
+  it('板上居中放置体素时，顶面矩形的边上有多个额外顶点', () => {
+    const cells: [number, number, number][] = [];
+    for (let x = 0; x < 3; x++) {
+      for (let z = 0; z < 3; z++) cells.push([x, 0, z]);
+    }
+    cells.push([1, 1, 1]);
+    cells.push([0, 1, 0], [0, 2, 0]);
+    expectClosedManifold(voxelsAt(cells));
+  });
+
+  it('只有棱相接的体素拆开后每条边恰好被两个三角形共享', () => {
+    expectClosedManifold(voxelsAt([[0, 0, 0], [1, 1, 0]]));
+    expectClosedManifold(voxelsAt([[0, 0, 0], [1, 0, 0], [1, 1, 0], [2, 1, 0], [0, 1, 1]]));
+  });
+
+  it('带空腔的模型内外表面都封闭', () => {
+    const cells: [number, number, number][] = [];
+    for (let x = 0; x < 3; x++) {
+      for (let y = 0; y < 3; y++) {
+        for (let z = 0; z < 3; z++) {
+          if (x !== 1 || y !== 1 || z !== 1) cells.push([x, y, z]);
+        }
+      }
+    }
+    expectClosedManifold(voxelsAt(cells));
+  });
+});
@@ -0,0 +1,114 @@
+import type { Voxel } from '../../hooks/useStore';
+import { buildClosedMesh } from '../meshing';
+import { findConnectedParts } from '../voxelIndex';
+import { FormatError } from './formatError';
+
+// STL 导出（用于 3D 打印）
+// 单位为毫米，每个格点的边长等于体素尺寸；坐标转换为打印常用的 Z 轴向上，模型包围盒最小角位于原点
+
+export type StlFormat = 'binary' | 'ascii';
+
+export interface StlExportOptions {
+  format: StlFormat;
+  // 体素尺寸（毫米）
+  voxelSize: number;
+  // 是否把互不相连的部件导出为单独的文件
+  splitParts: boolean;
+}
+
+export interface StlFile {
+  filename: string;
+  data: Uint8Array | string;
+}
+
+type Vec3 = [number, number, number];
+
+// 已转换为毫米坐标的三角形
+interface Triangle {
+  normal: Vec3;
+  vertices: [Vec3, Vec3, Vec3];
+}
+
+// 格点坐标 (x, y, z) 转换为 Z 轴向上的 (x, -z, y)
+const toZUp = (p: number[]): Vec3 => [p[0], -p[2], p[1]];
+
+// 生成部件的三角形，origin 为 Z 轴向上坐标系下的包围盒最小角（格点单位）
+const buildTriangles = (voxels: Voxel[], origin: Vec3, voxelSize: number): Triangle[] => {
+  const mesh = buildClosedMesh(voxels);
+  const toMillimetres = (p: number[]): Vec3 => {
+    const z = toZUp(p);
+    return [(z[0] - origin[0]) * voxelSize, (z[1] - origin[1]) * voxelSize, (z[2] - origin[2]) * voxelSize];
+  };
+  return mesh.triangles.map((triangle, i) => ({
+    // 法线方向不受平移和缩放影响，只需转换坐标轴；+0 避免输出 -0
+    normal: toZUp(mesh.normals[i]).map(n => n + 0) as Vec3,
+    vertices: triangle.map(id => toMillimetres(mesh.vertices[id])) as [Vec3, Vec3, Vec3]
+  }));
+};
+
+// 二进制 STL：80 字节文件头 + 三角形数量 + 每个三角形 50 字节
+const writeBinary = (triangles: Triangle[], name: string): Uint8Array => {
+  const buffer = new ArrayBuffer(84 + triangles.length * 50);
+  const view = new DataView(buffer);
+  const header = new TextEncoder().encode(`binary STL ${name}`.slice(0, 80));
+  new Uint8Array(buffer).set(header);
+  view.setUint32(80, triangles.length, true);
+  
+  let offset = 84;
+  triangles.forEach(({ normal, vertices }) => {
+    [normal, ...vertices].forEach(vector => {
+      vector.forEach(n => {
+        view.setFloat32(offset, n, true);
+        offset += 4;
+      });
+    });
+    // 属性字节数，固定为 0
+    view.setUint16(offset, 0, true);
+    offset += 2;
+  });
+  
+  return new Uint8Array(buffer);
+};
+
+// ASCII STL
+const writeAscii = (triangles: Triangle[], name: string): string => {
+  const format = (vector: Vec3) => vector.map(n => Number(n.toFixed(6))).join(' ');
+  const lines = [`solid ${name}`];
+  triangles.forEach(({ normal, vertices }) => {
+    lines.push(`  facet normal ${format(normal)}`);
+    lines.push('    outer loop');
+    vertices.forEach(vertex => lines.push(`      vertex ${format(vertex)}`));
+    lines.push('    endloop');
+    lines.push('  endfacet');
+  });
+  lines.push(`endsolid ${name}`);
+  return lines.join('\n') + '\n';
+};
+
+// 导出 STL - 只包含外露面，网格封闭且为流形；拆分部件时每个部件一个文件，保持相对位置不变
+export const exportStl = (voxels: Voxel[], options: StlExportOptions): StlFile[] => {
+  if (voxels.length === 0) {
+    throw new FormatError('模型为空，无法导出');
+  }
+  if (!(options.voxelSize > 0)) {
+    throw new FormatError('体素尺寸无效');
+  }
+  
+  // 整个模型在 Z 轴向上坐标系下的包围盒最小角
+  const origin: Vec3 = [Infinity, Infinity, Infinity];
+  voxels.forEach(voxel => {
+    toZUp([voxel.position.x, voxel.position.y, voxel.position.z]).forEach((n, axis) => {
+      origin[axis] = Math.min(origin[axis], n - 0.5);
+    });
+  });
+  
+  const groups = options.splitParts ? findConnectedParts(voxels) : [voxels];
+  return groups.map((group, i) => {
+    const name = groups.length > 1 ? `voxel-model-part-${i + 1}` : 'voxel-model';
+    const triangles = buildTriangles(group, origin, options.voxelSize);
+    return {
+      filename: `${name}.stl`,
+      data: options.format === 'binary' ? writeBinary(triangles, name) : writeAscii(triangles, name)
+    };
+  });
+};
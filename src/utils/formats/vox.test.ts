@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { Vector3 } from 'three';
+import type { Voxel } from '../../hooks/useStore';
+import { colorDistanceSq, hexToRgb, rgbToHex } from '../color';
+import { exportVox, parseVox } from './vox';
+
+// 以 "x,y,z" -> 颜色 的形式比较模型
+const toCells = (voxels: Voxel[]) =>
+  new Map(voxels.map(voxel => [`${voxel.position.x},${voxel.position.y},${voxel.position.z}`, voxel.color]));
+
+const toBuffer = (bytes: Uint8Array) =>
+  bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+// 列出 MAIN 块下的子块 id
+const listChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ids: string[] = [];
+  let offset = 20;
+  while (offset < bytes.length) {
+    ids.push(String.fromCharCode(...bytes.subarray(offset, offset + 4)));
+    offset += 12 + view.getInt32(offset + 4, true) + view.getInt32(offset + 8, true);
+  }
+  return ids;
+};
+
+// 手工拼装 .vox 文件
+const int32 = (value: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setInt32(0, value, true);
+  return Array.from(bytes);
+};
+const text = (value: string) => Array.from(new TextEncoder().encode(value));
+const str = (value: string) => [...int32(value.length), ...text(value)];
+const dict = (value: Record<string, string>) =>
+  [...int32(Object.keys(value).length), ...Object.entries(value).flatMap(([k, v]) => [...str(k), ...str(v)])];
+const chunk = (id: string, content: number[], children: number[] = []) =>
+  [...text(id), ...int32(content.length), ...int32(children.length), ...content, ...children];
+
+const size = (x: number, y: number, z: number) => chunk('SIZE', [...int32(x), ...int32(y), ...int32(z)]);
+const xyzi = (voxels: number[][]) => chunk('XYZI', [...int32(voxels.length), ...voxels.flat()]);
+const transform = (id: number, child: number, frame: Record<string, string>, attributes: Record<string, string> = {}) =>
+  chunk('nTRN', [...int32(id), ...dict(attributes), ...int32(child), ...int32(-1), ...int32(0), ...int32(1), ...dict(frame)]);
+const group = (id: number, children: number[]) =>
+  chunk('nGRP', [...int32(id), ...dict({}), ...int32(children.length), ...children.flatMap(int32)]);
+const shape = (id: number, model: number) =>
+  chunk('nSHP', [...int32(id), ...dict({}), ...int32(1), ...int32(model), ...dict({})]);
+const rgba = (colors: number[][]) => {
+  const data = new Array(256 * 4).fill(0);
+  colors.forEach((color, i) => data.splice(i * 4, 4, ...color, 255));
+  return chunk('RGBA', data);
+};
+const voxFile = (children: number[][]) =>
+  toBuffer(new Uint8Array([...text('VOX '), ...int32(150), ...chunk('MAIN', [], children.flat())]));
+
+describe('parseVox', () => {
+  it('按 nTRN/nGRP/nSHP 场景图的旋转和平移合并多个模型，跳过隐藏节点', () => {
+    // 根变换平移 (1, 2, 3) -> 组 -> [平移 (10, 0, 0) 的模型 0, 绕 Z 轴旋转 90° 并平移 (0, 0, 5) 的模型 1, 隐藏的模型 0]
+    const buffer = voxFile([
+      size(1, 1, 1),
+      xyzi([[0, 0, 0, 1]]),
+      size(3, 1, 1),
+      xyzi([[0, 0, 0, 2], [2, 0, 0, 2]]),
+      transform(0, 1, { _t: '1 2 3' }),
+      group(1, [2, 4, 6]),
+      transform(2, 3, { _t: '10 0 0' }),
+      shape(3, 0),
+      transform(4, 5, { _r: '17', _t: '0 0 5' }),
+      shape(5, 1),
+      transform(6, 7, { _t: '-20 0 0' }, { _hidden: '1' }),
+      shape(7, 0),
+      rgba([[255, 0, 0], [0, 255, 0]])
+    ]);
+
+    const { voxels, warnings } = parseVox(buffer);
+
+    // .vox 坐标 (x, y, z) 对应本项目的 (x, z, -y)
+    expect(toCells(voxels)).toEqual(new Map([
+      ['11,3,-2', '#ff0000'],
+      ['1,8,-1', '#00ff00'],
+      ['1,8,-3', '#00ff00']
+    ]));
+    expect(warnings).toEqual([]);
+  });
+});
+
+describe('exportVox', () => {
+  it('导出后重新导入得到相同的模型', () => {
+    const voxels: Voxel[] = [
+      { position: new Vector3(0, 0, 0), color: '#ff0000' },
+      { position: new Vector3(-3, 2, 5), color: '#00ff00' },
+      { position: new Vector3(4, -1, -2), color: '#0000ff' }
+    ];
+
+    const { data, warnings } = exportVox(voxels);
+
+    expect(warnings).toEqual([]);
+    expect(toCells(parseVox(toBuffer(data)).voxels)).toEqual(toCells(voxels));
+  });
+
+  it('超过 256 格的模型拆分为多个子模型，重新导入后位置不变', () => {
+    const voxels: Voxel[] = [];
+    for (let x = 0; x < 300; x++) {
+      voxels.push({ position: new Vector3(x - 100, 7, -x), color: '#336699' });
+    }
+
+    const { data } = exportVox(voxels);
+
+    // 两个轴各跨两块，对角线上的格点落在其中 2 块里
+    const ids = listChunks(data);
+    expect(ids.filter(id => id === 'SIZE')).toHaveLength(2);
+    expect(ids.filter(id => id === 'nSHP')).toHaveLength(2);
+    expect(toCells(parseVox(toBuffer(data)).voxels)).toEqual(toCells(voxels));
+  });
+
+  it('超过 255 种颜色时量化调色板并给出提示', () => {
+    const voxels: Voxel[] = [];
+    for (let i = 0; i < 300; i++) {
+      voxels.push({ position: new Vector3(i % 20, Math.floor(i / 20), 0), color: rgbToHex(i % 256, (i >> 8) * 128, 64) });
+    }
+
+    const { data, warnings } = exportVox(voxels);
+    const imported = toCells(parseVox(toBuffer(data)).voxels);
+
+    expect(warnings).toHaveLength(1);
+    expect(imported.size).toBe(voxels.length);
+    expect(new Set(imported.values()).size).toBeLessThanOrEqual(255);
+    // 每个体素的颜色替换为相近的颜色
+    toCells(voxels).forEach((color, key) => {
+      expect(colorDistanceSq(hexToRgb(color), hexToRgb(imported.get(key)!))).toBeLessThanOrEqual(3 * 16 * 16);
+    });
+  });
+
+  it('恰好 255 种颜色时不量化', () => {
+    const voxels: Voxel[] = [];
+    for (let i = 0; i < 255; i++) {
+      voxels.push({ position: new Vector3(i, 0, 0), color: rgbToHex(i, 0, 64) });
+    }
+
+    const { data, warnings } = exportVox(voxels);
+
+    expect(warnings).toEqual([]);
+    expect(toCells(parseVox(toBuffer(data)).voxels)).toEqual(toCells(voxels));
+  });
+});
@@ -0,0 +1,441 @@
+import * as THREE from 'three';
+import type { Voxel } from '../../hooks/useStore';
+import { quantizeColors, rgbToHex } from '../color';
+import { FormatError } from './formatError';
+
+// MagicaVoxel .vox 文件读写
+// 坐标约定：.vox 为 Z 轴向上，本项目为 Y 轴向上，转换关系为 (x, y, z)vox = (x, -z, y)
+
+// 单个模型的最大边长
+const MAX_MODEL_SIZE = 256;
+// 调色板可用颜色数（颜色索引 0 表示空）
+const MAX_PALETTE_COLORS = 255;
+
+// 导入/导出结果 - warnings 为需要提示用户的非致命问题
+export interface VoxImportResult {
+  voxels: Voxel[];
+  warnings: string[];
+}
+
+export interface VoxExportResult {
+  data: Uint8Array;
+  warnings: string[];
+}
+
+// 默认调色板 - 文件不含 RGBA 块时使用，按颜色索引 1-255 排列
+const createDefaultPalette = (): string[] => {
+  const palette: string[] = [];
+  const levels = [0xff, 0xcc, 0x99, 0x66, 0x33, 0x00];
+  levels.forEach(r => levels.forEach(g => levels.forEach(b => {
+    if (r || g || b) palette.push(rgbToHex(r, g, b));
+  })));
+  const ramp = [0xee, 0xdd, 0xbb, 0xaa, 0x88, 0x77, 0x55, 0x44, 0x22, 0x11];
+  ramp.forEach(v => palette.push(rgbToHex(0, 0, v)));
+  ramp.forEach(v => palette.push(rgbToHex(0, v, 0)));
+  ramp.forEach(v => palette.push(rgbToHex(v, 0, 0)));
+  ramp.forEach(v => palette.push(rgbToHex(v, v, v)));
+  return palette;
+};
+
+// 场景图节点
+type SceneNode =
+  | { type: 'transform'; attributes: Record<string, string>; child: number; layer: number; rotation: number[][]; translation: number[] }
+  | { type: 'group'; attributes: Record<string, string>; children: number[] }
+  | { type: 'shape'; attributes: Record<string, string>; models: number[] };
+
+interface VoxModel {
+  size: [number, number, number];
+  voxels: [number, number, number, number][];
+}
+
+const IDENTITY: number[][] = [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+
+// 解析 nTRN 中的旋转字节 - 每行只有一个 ±1 元素
+const decodeRotation = (value: number): number[][] => {
+  const first = value & 3;
+  const second = (value >> 2) & 3;
+  const third = 3 - first - second;
+  if (first === second || third < 0 || third > 2) {
+    throw new FormatError(`无效的旋转值: ${value}`);
+  }
+  return [first, second, third].map((column, row) => {
+    const cells = [0, 0, 0];
+    cells[column] = (value >> (4 + row)) & 1 ? -1 : 1;
+    return cells;
+  });
+};
+
+const multiplyMatrix = (a: number[][], b: number[][]) =>
+  a.map(row => [0, 1, 2].map(j => row[0] * b[0][j] + row[1] * b[1][j] + row[2] * b[2][j]));
+
+const applyMatrix = (m: number[][], v: number[]) =>
+  m.map(row => row[0] * v[0] + row[1] * v[1] + row[2] * v[2]);
+
+// 顺序读取二进制数据
+class Reader {
+  private view: DataView;
+  private bytes: Uint8Array;
+  offset = 0;
+  
+  constructor(buffer: ArrayBuffer) {
+    this.view = new DataView(buffer);
+    this.bytes = new Uint8Array(buffer);
+  }
+  
+  get length() {
+    return this.bytes.length;
+  }
+  
+  private ensure(count: number) {
+    if (this.offset + count > this.bytes.length) {
+      throw new FormatError('文件已损坏：数据意外结束');
+    }
+  }
+  
+  int32() {
+    this.ensure(4);
+    const value = this.view.getInt32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+  
+  bytesOf(count: number) {
+    this.ensure(count);
+    const value = this.bytes.subarray(this.offset, this.offset + count);
+    this.offset += count;
+    return value;
+  }
+  
+  id() {
+    return String.fromCharCode(...this.bytesOf(4));
+  }
+  
+  string() {
+    return new TextDecoder().decode(this.bytesOf(this.int32()));
+  }
+  
+  dict() {
+    const result: Record<string, string> = {};
+    const count = this.int32();
+    for (let i = 0; i < count; i++) {
+      const key = this.string();
+      result[key] = this.string();
+    }
+    return result;
+  }
+}
+
+// 解析 .vox 文件，多个模型按场景图变换合并为一个模型
+export const parseVox = (buffer: ArrayBuffer): VoxImportResult => {
+  const reader = new Reader(buffer);
+  if (reader.length < 8 || reader.id() !== 'VOX ') {
+    throw new FormatError('不是 MagicaVoxel .vox 文件');
+  }
+  reader.int32(); // 版本号
+  
+  if (reader.id() !== 'MAIN') {
+    throw new FormatError('文件缺少 MAIN 块');
+  }
+  const mainContent = reader.int32();
+  const mainChildren = reader.int32();
+  reader.bytesOf(mainContent);
+  const end = reader.offset + mainChildren;
+  if (end > reader.length) {
+    throw new FormatError('文件已损坏：数据意外结束');
+  }
+  
+  const models: VoxModel[] = [];
+  const nodes = new Map<number, SceneNode>();
+  const hiddenLayers = new Set<number>();
+  const warnings: string[] = [];
+  let pendingSize: [number, number, number] | null = null;
+  let palette: string[] | null = null;
+  
+  while (reader.offset < end) {
+    const id = reader.id();
+    const contentSize = reader.int32();
+    const childrenSize = reader.int32();
+    const chunkEnd = reader.offset + contentSize;
+    
+    switch (id) {
+      case 'SIZE':
+        pendingSize = [reader.int32(), reader.int32(), reader.int32()];
+        break;
+      case 'XYZI': {
+        if (!pendingSize) {
+          throw new FormatError('XYZI 块缺少对应的 SIZE 块');
+        }
+        const count = reader.int32();
+        const data = reader.bytesOf(count * 4);
+        const voxels: VoxModel['voxels'] = [];
+        for (let i = 0; i < count; i++) {
+          voxels.push([data[i * 4], data[i * 4 + 1], data[i * 4 + 2], data[i * 4 + 3]]);
+        }
+        models.push({ size: pendingSize, voxels });
+        pendingSize = null;
+        break;
+      }
+      case 'RGBA': {
+        const data = reader.bytesOf(256 * 4);
+        palette = [];
+        // 第 i 项对应颜色索引 i + 1
+        for (let i = 0; i < MAX_PALETTE_COLORS; i++) {
+          palette.push(rgbToHex(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]));
+        }
+        break;
+      }
+      case 'nTRN': {
+        const nodeId = reader.int32();
+        const attributes = reader.dict();
+        const child = reader.int32();
+        reader.int32(); // 保留字段
+        const layer = reader.int32();
+        const frameCount = reader.int32();
+        let rotation = IDENTITY;
+        let translation = [0, 0, 0];
+        for (let i = 0; i < frameCount; i++) {
+          const frame = reader.dict();
+          // 只使用第一帧
+          if (i > 0) continue;
+          if (frame._r !== undefined) rotation = decodeRotation(Number(frame._r));
+          if (frame._t !== undefined) translation = frame._t.split(' ').map(Number);
+        }
+        nodes.set(nodeId, { type: 'transform', attributes, child, layer, rotation, translation });
+        break;
+      }
+      case 'nGRP': {
+        const nodeId = reader.int32();
+        const attributes = reader.dict();
+        const count = reader.int32();
+        const children: number[] = [];
+        for (let i = 0; i < count; i++) children.push(reader.int32());
+        nodes.set(nodeId, { type: 'group', attributes, children });
+        break;
+      }
+      case 'nSHP': {
+        const nodeId = reader.int32();
+        const attributes = reader.dict();
+        const count = reader.int32();
+        const shapeModels: number[] = [];
+        for (let i = 0; i < count; i++) {
+          shapeModels.push(reader.int32());
+          reader.dict(); // 模型属性
+        }
+        nodes.set(nodeId, { type: 'shape', attributes, models: shapeModels });
+        break;
+      }
+      case 'LAYR': {
+        const layerId = reader.int32();
+        const attributes = reader.dict();
+        if (attributes._hidden === '1') hiddenLayers.add(layerId);
+        break;
+      }
+      default:
+        // 材质、相机等其他块暂不支持，直接跳过
+        break;
+    }
+    
+    reader.offset = chunkEnd + childrenSize;
+  }
+  
+  if (models.length === 0) {
+    throw new FormatError('文件中没有模型');
+  }
+  
+  const colors = palette ?? createDefaultPalette();
+  const cells = new Map<string, Voxel>();
+  let overlapping = 0;
+  
+  // 将模型体素按变换写入合并后的模型
+  const placeModel = (modelId: number, rotation: number[][], translation: number[]) => {
+    const model = models[modelId];
+    if (!model) {
+      throw new FormatError(`场景图引用了不存在的模型: ${modelId}`);
+    }
+    // 变换以模型中心为原点
+    const pivot = model.size.map(n => Math.floor(n / 2));
+    model.voxels.forEach(([x, y, z, colorIndex]) => {
+      if (colorIndex === 0) return;
+      const local = [x - pivot[0], y - pivot[1], z - pivot[2]];
+      const [vx, vy, vz] = applyMatrix(rotation, local).map((n, i) => n + translation[i]);
+      const position = new THREE.Vector3(vx, vz, -vy);
+      const key = `${position.x},${position.y},${position.z}`;
+      if (cells.has(key)) overlapping++;
+      cells.set(key, { position, color: colors[colorIndex - 1] });
+    });
+  };
+  
+  const visit = (nodeId: number, rotation: number[][], translation: number[], depth: number) => {
+    const node = nodes.get(nodeId);
+    if (!node) {
+      throw new FormatError(`场景图引用了不存在的节点: ${nodeId}`);
+    }
+    if (depth > 64) {
+      throw new FormatError('场景图层级过深或存在循环引用');
+    }
+    if (node.attributes._hidden === '1') return;
+    
+    if (node.type === 'transform') {
+      if (hiddenLayers.has(node.layer)) return;
+      const nextRotation = multiplyMatrix(rotation, node.rotation);
+      const nextTranslation = applyMatrix(rotation, node.translation).map((n, i) => n + translation[i]);
+      visit(node.child, nextRotation, nextTranslation, depth + 1);
+    } else if (node.type === 'group') {
+      node.children.forEach(child => visit(child, rotation, translation, depth + 1));
+    } else {
+      node.models.forEach(modelId => placeModel(modelId, rotation, translation));
+    }
+  };
+  
+  if (nodes.has(0)) {
+    visit(0, IDENTITY, [0, 0, 0], 0);
+  } else {
+    // 没有场景图的旧版文件，所有模型按原点放置
+    models.forEach((model, i) => {
+      const pivot = model.size.map(n => Math.floor(n / 2));
+      placeModel(i, IDENTITY, pivot);
+    });
+  }
+  
+  if (overlapping > 0) {
+    warnings.push(`有 ${overlapping} 个体素因多个模型重叠而被覆盖`);
+  }
+  
+  return { voxels: Array.from(cells.values()), warnings };
+};
+
+// 按顺序写入二进制数据
+class Writer {
+  private parts: Uint8Array[] = [];
+  
+  int32(value: number) {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setInt32(0, value, true);
+    this.parts.push(bytes);
+    return this;
+  }
+  
+  bytes(value: Uint8Array) {
+    this.parts.push(value);
+    return this;
+  }
+  
+  id(value: string) {
+    return this.bytes(new TextEncoder().encode(value));
+  }
+  
+  string(value: string) {
+    const encoded = new TextEncoder().encode(value);
+    return this.int32(encoded.length).bytes(encoded);
+  }
+  
+  dict(value: Record<string, string>) {
+    const entries = Object.entries(value);
+    this.int32(entries.length);
+    entries.forEach(([key, item]) => this.string(key).string(item));
+    return this;
+  }
+  
+  toBytes() {
+    const length = this.parts.reduce((sum, part) => sum + part.length, 0);
+    const result = new Uint8Array(length);
+    let offset = 0;
+    this.parts.forEach(part => {
+      result.set(part, offset);
+      offset += part.length;
+    });
+    return result;
+  }
+}
+
+const chunk = (id: string, content: Writer, children?: Uint8Array) => {
+  const body = content.toBytes();
+  const writer = new Writer().id(id).int32(body.length).int32(children?.length ?? 0).bytes(body);
+  if (children) writer.bytes(children);
+  return writer.toBytes();
+};
+
+// 导出为 .vox 文件 - 超过 255 种颜色时量化调色板，超过 256 格的模型拆分为多个子模型
+export const exportVox = (voxels: Voxel[]): VoxExportResult => {
+  if (voxels.length === 0) {
+    throw new FormatError('模型为空，无法导出');
+  }
+  const warnings: string[] = [];
+  
+  // 生成调色板
+  const counts = new Map<string, number>();
+  voxels.forEach(voxel => counts.set(voxel.color, (counts.get(voxel.color) ?? 0) + 1));
+  const quantized = quantizeColors(counts, MAX_PALETTE_COLORS);
+  if (counts.size > MAX_PALETTE_COLORS) {
+    warnings.push(`模型包含 ${counts.size} 种颜色，超过 .vox 的 ${MAX_PALETTE_COLORS} 色上限，已自动合并为相近颜色`);
+  }
+  const palette = Array.from(new Set(quantized.values()));
+  const paletteIndex = new Map(palette.map((color, i) => [color, i + 1]));
+  
+  // 转换为 .vox 坐标并平移到非负范围
+  const points = voxels.map(voxel => [voxel.position.x, -voxel.position.z, voxel.position.y]);
+  const min = [Infinity, Infinity, Infinity];
+  points.forEach(point => point.forEach((n, axis) => {
+    min[axis] = Math.min(min[axis], n);
+  }));
+  
+  // 按 256 格分块，size 记录块内实际占用的尺寸
+  const tiles = new Map<string, { origin: number[]; size: number[]; voxels: number[][] }>();
+  points.forEach((point, i) => {
+    const relative = point.map((n, axis) => n - min[axis]);
+    const tileIndex = relative.map(n => Math.floor(n / MAX_MODEL_SIZE));
+    const key = tileIndex.join(',');
+    let tile = tiles.get(key);
+    if (!tile) {
+      tile = { origin: tileIndex.map(n => n * MAX_MODEL_SIZE), size: [1, 1, 1], voxels: [] };
+      tiles.set(key, tile);
+    }
+    const { origin, size } = tile;
+    const local = relative.map((n, axis) => n - origin[axis]);
+    local.forEach((n, axis) => {
+      size[axis] = Math.max(size[axis], n + 1);
+    });
+    tile.voxels.push([...local, paletteIndex.get(quantized.get(voxels[i].color)!)!]);
+  });
+  
+  const children: Uint8Array[] = [];
+  const tileList = Array.from(tiles.values());
+  
+  tileList.forEach(({ size, voxels: tileVoxels }) => {
+    children.push(chunk('SIZE', new Writer().int32(size[0]).int32(size[1]).int32(size[2])));
+    const data = new Uint8Array(tileVoxels.length * 4);
+    tileVoxels.forEach((v, i) => data.set(v, i * 4));
+    children.push(chunk('XYZI', new Writer().int32(tileVoxels.length).bytes(data)));
+  });
+  
+  // 场景图：根变换 -> 组 -> 每个子模型的变换与形状，平移量保留模型的原始位置
+  const groupChildren = tileList.map((_, i) => 2 + i * 2);
+  children.push(chunk('nTRN', new Writer().int32(0).dict({}).int32(1).int32(-1).int32(-1).int32(1).dict({})));
+  const group = new Writer().int32(1).dict({}).int32(groupChildren.length);
+  groupChildren.forEach(id => group.int32(id));
+  children.push(chunk('nGRP', group));
+  tileList.forEach(({ origin, size }, i) => {
+    const translation = origin.map((n, axis) => n + Math.floor(size[axis] / 2) + min[axis]);
+    children.push(chunk('nTRN', new Writer()
+      .int32(2 + i * 2).dict({}).int32(3 + i * 2).int32(-1).int32(0)
+      .int32(1).dict({ _t: translation.join(' ') })));
+    children.push(chunk('nSHP', new Writer().int32(3 + i * 2).dict({}).int32(1).int32(i).dict({})));
+  });
+  
+  // 调色板固定 256 项，未使用的项填充为黑色
+  const rgba = new Uint8Array(256 * 4);
+  palette.forEach((color, i) => {
+    const value = parseInt(color.slice(1), 16);
+    rgba.set([(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff, 0xff], i * 4);
+  });
+  children.push(chunk('RGBA', new Writer().bytes(rgba)));
+  
+  const childBytes = new Writer();
+  children.forEach(part => childBytes.bytes(part));
+  const main = chunk('MAIN', new Writer(), childBytes.toBytes());
+  
+  return {
+    data: new Writer().id('VOX ').int32(150).bytes(main).toBytes(),
+    warnings
+  };
+};
@@ -0,0 +1,61 @@
+import { Vector3 } from 'three';
+
+// 一个格点在场景中的渲染尺寸（世界单位），与体素的实际尺寸（毫米）无关
+export const CELL_SIZE = 0.3;
+
+// 格点半尺寸，用于计算面中心
+export const CELL_HALF = CELL_SIZE / 2;
+
+// 渲染方块时略微放大，避免相邻方块之间出现缝隙
+export const CELL_RENDER_SIZE = CELL_SIZE + 0.001;
+
+// 默认体素尺寸（毫米）
+export const DEFAULT_VOXEL_SIZE_MM = 3;
+
+// 工具面板中可直接选择的体素尺寸（毫米）
+export const VOXEL_SIZE_PRESETS_MM = [1, 3, 5];
+
+// 格点坐标转换为场景中的世界坐标（格点中心）
+export const cellToWorld = (cell: Vector3, target = new Vector3()): Vector3 => {
+  return target.copy(cell).multiplyScalar(CELL_SIZE);
+};
+
+// 世界坐标转换为最近的整数格点坐标
+export const worldToCell = (world: Vector3, target = new Vector3()): Vector3 => {
+  return target.set(
+    Math.round(world.x / CELL_SIZE),
+    Math.round(world.y / CELL_SIZE),
+    Math.round(world.z / CELL_SIZE)
+  );
+};
+
+// 将任意方向量化为最接近的主轴方向（x, y 或 z 轴），以确保对齐网格
+export const snapNormalToAxis = (normal: Vector3, target = new Vector3()): Vector3 => {
+  const absX = Math.abs(normal.x);
+  const absY = Math.abs(normal.y);
+  const absZ = Math.abs(normal.z);
+  
+  if (absX > absY && absX > absZ) {
+    return target.set(normal.x > 0 ? 1 : -1, 0, 0);
+  } else if (absY > absX && absY > absZ) {
+    return target.set(0, normal.y > 0 ? 1 : -1, 0);
+  }
+  return target.set(0, 0, normal.z > 0 ? 1 : -1);
+};
+
+// 根据射线与体素表面的交点和面法线，计算被击中的格点（交点沿法线反方向移动半个格点）
+export const cellFromHit = (point: Vector3, normal: Vector3, target = new Vector3()): Vector3 => {
+  target.copy(normal).multiplyScalar(-CELL_HALF).add(point);
+  return worldToCell(target, target);
+};
+
+// 解析推拉时键入的距离：纯数字为层数，带 mm 后缀为毫米并按体素尺寸换算为最近的整数层，无法解析时返回 null
+export const parseLayerInput = (text: string, voxelSizeMm: number): number | null => {
+  const match = /^\s*(-?\d+(?:\.\d+)?|-?\.\d+)\s*(mm)?\s*$/i.exec(text);
+  if (!match) return null;
+  const value = Number(match[1]);
+  if (!Number.isFinite(value)) return null;
+  const layers = match[2] ? value / voxelSizeMm : value;
+  // 正负方向对称取整，避免 -1.5 被取整为 -1
+  return Math.sign(layers) * Math.round(Math.abs(layers));
+};
@@ -0,0 +1,102 @@
+import { Vector3 } from 'three';
+import type { Voxel } from '../hooks/useStore';
+import { nearestColor, rgbToHex } from './color';
+
+// 图片导入：像素画浮雕和灰度高度图
+
+// 像素画：每个不透明像素一个体素，放在选定平面上并可挤出多层
+// 高度图：亮度决定地面上每一列的高度
+export type ImageImportMode = 'pixel' | 'heightmap';
+
+// 像素画所在平面：'xy' 竖直面向 +Z，'zy' 竖直面向 +X，'xz' 水平地面
+export type ImagePlane = 'xy' | 'zy' | 'xz';
+
+export interface ImageImportOptions {
+  mode: ImageImportMode;
+  plane: ImagePlane;
+  // 像素画挤出的层数
+  depth: number;
+  // 高度图最亮处的高度（格）
+  maxHeight: number;
+  // 量化到的调色板，为 null 时保留原始颜色
+  palette: string[] | null;
+}
+
+// 像素数据（与 ImageData 相同的 RGBA 排列）
+export interface ImagePixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// 透明度低于该值的像素视为透明
+const ALPHA_THRESHOLD = 128;
+
+// 导入图片的最大边长（像素）
+export const MAX_IMAGE_SIZE = 256;
+
+// 读取图片像素，按最近邻缩放到指定宽度（保持像素画的硬边）
+export const readImagePixels = (image: ImageBitmap, width: number): ImagePixels => {
+  const targetWidth = Math.max(1, Math.min(MAX_IMAGE_SIZE, Math.round(width)));
+  const targetHeight = Math.max(1, Math.min(MAX_IMAGE_SIZE, Math.round(image.height * targetWidth / image.width)));
+  const canvas = document.createElement('canvas');
+  canvas.width = targetWidth;
+  canvas.height = targetHeight;
+  const context = canvas.getContext('2d')!;
+  context.imageSmoothingEnabled = false;
+  context.drawImage(image, 0, 0, targetWidth, targetHeight);
+  return context.getImageData(0, 0, targetWidth, targetHeight);
+};
+
+// 将像素转换为体素，图片中心对齐原点
+export const imageToVoxels = (pixels: ImagePixels, options: ImageImportOptions): Voxel[] => {
+  const { width, height, data } = pixels;
+  const voxels: Voxel[] = [];
+  const quantized = new Map<string, string>();
+  const halfWidth = Math.floor(width / 2);
+  const halfHeight = Math.floor(height / 2);
+  
+  // 像素颜色，按需量化到调色板
+  const colorAt = (offset: number) => {
+    const color = rgbToHex(data[offset], data[offset + 1], data[offset + 2]);
+    if (!options.palette || options.palette.length === 0) return color;
+    let result = quantized.get(color);
+    if (!result) {
+      result = nearestColor(color, options.palette);
+      quantized.set(color, result);
+    }
+    return result;
+  };
+  
+  for (let py = 0; py < height; py++) {
+    for (let px = 0; px < width; px++) {
+      const offset = (py * width + px) * 4;
+      if (data[offset + 3] < ALPHA_THRESHOLD) continue;
+      const color = colorAt(offset);
+      // 图片的上方对应场景中的上方（或地面上的 -Z 方向）
+      const u = px - halfWidth;
+      const v = height - 1 - py;
+      
+      if (options.mode === 'heightmap') {
+        // 感知亮度
+        const brightness = (0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2]) / 255;
+        const columnHeight = Math.max(1, Math.round(brightness * options.maxHeight));
+        for (let y = 0; y < columnHeight; y++) {
+          voxels.push({ position: new Vector3(u, y, py - halfHeight), color });
+        }
+        continue;
+      }
+      
+      for (let layer = 0; layer < options.depth; layer++) {
+        const position = options.plane === 'xy'
+          ? new Vector3(u, v, -layer)
+          : options.plane === 'zy'
+            ? new Vector3(-layer, v, -u)
+            : new Vector3(u, layer, py - halfHeight);
+        voxels.push({ position, color });
+      }
+    }
+  }
+  
+  return voxels;
+};
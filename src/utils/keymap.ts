@@ -0,0 +1,138 @@
+// 快捷键操作 id
+export type ActionId =
+  | 'tool.add' | 'tool.remove' | 'tool.pushpull' | 'tool.paint' | 'tool.eyedropper' | 'tool.fill' | 'tool.select'
+  | 'tool.box' | 'tool.measure' | 'tool.momentaryRemove'
+  | 'edit.undo' | 'edit.redo' | 'edit.copy' | 'edit.cut' | 'edit.paste' | 'edit.duplicate'
+  | 'selection.delete' | 'selection.cancel' | 'selection.moveLeft' | 'selection.moveRight'
+  | 'selection.moveForward' | 'selection.moveBack' | 'selection.moveUp' | 'selection.moveDown'
+  | 'view.stats' | 'view.shortcuts';
+
+// 快捷键操作的说明
+export interface ActionDefinition {
+  id: ActionId;
+  label: string;
+  // 速查表中的分组
+  group: string;
+  defaults: string[];
+  // 按住时临时切换、松开按键后恢复的操作
+  momentary?: boolean;
+}
+
+// 每个操作绑定的快捷键，快捷键格式为 "Ctrl+Shift+Z"（修饰键按 Ctrl、Alt、Shift 排列，Ctrl 同时匹配 Cmd）
+export type Keymap = Record<ActionId, string[]>;
+
+// 所有快捷键操作，按速查表中的顺序排列
+export const ACTIONS: ActionDefinition[] = [
+  { id: 'tool.add', label: '添加', group: '工具', defaults: ['A'] },
+  { id: 'tool.remove', label: '删除', group: '工具', defaults: ['D'] },
+  { id: 'tool.pushpull', label: '推拉', group: '工具', defaults: ['P'] },
+  { id: 'tool.paint', label: '上色', group: '工具', defaults: ['B'] },
+  { id: 'tool.eyedropper', label: '吸管', group: '工具', defaults: ['I'] },
+  { id: 'tool.fill', label: '油漆桶', group: '工具', defaults: ['G'] },
+  { id: 'tool.select', label: '选择', group: '工具', defaults: ['S'] },
+  { id: 'tool.box', label: '长方体', group: '工具', defaults: ['X'] },
+  { id: 'tool.measure', label: '测量', group: '工具', defaults: ['R'] },
+  { id: 'tool.momentaryRemove', label: '按住临时删除', group: '工具', defaults: ['Alt'], momentary: true },
+  { id: 'edit.undo', label: '撤销', group: '编辑', defaults: ['Ctrl+Z'] },
+  { id: 'edit.redo', label: '重做', group: '编辑', defaults: ['Ctrl+Shift+Z', 'Ctrl+Y'] },
+  { id: 'edit.copy', label: '复制', group: '编辑', defaults: ['Ctrl+C'] },
+  { id: 'edit.cut', label: '剪切', group: '编辑', defaults: ['Ctrl+X'] },
+  { id: 'edit.paste', label: '粘贴', group: '编辑', defaults: ['Ctrl+V'] },
+  { id: 'edit.duplicate', label: '创建副本', group: '编辑', defaults: ['Ctrl+D'] },
+  { id: 'selection.delete', label: '删除选区', group: '选择工具', defaults: ['Delete', 'Backspace'] },
+  { id: 'selection.cancel', label: '取消放置 / 清空选区', group: '选择工具', defaults: ['Escape'] },
+  { id: 'selection.moveLeft', label: '选区左移 (-X)', group: '选择工具', defaults: ['ArrowLeft'] },
+  { id: 'selection.moveRight', label: '选区右移 (+X)', group: '选择工具', defaults: ['ArrowRight'] },
+  { id: 'selection.moveForward', label: '选区前移 (-Z)', group: '选择工具', defaults: ['ArrowUp'] },
+  { id: 'selection.moveBack', label: '选区后移 (+Z)', group: '选择工具', defaults: ['ArrowDown'] },
+  { id: 'selection.moveUp', label: '选区上移 (+Y)', group: '选择工具', defaults: ['Shift+ArrowUp'] },
+  { id: 'selection.moveDown', label: '选区下移 (-Y)', group: '选择工具', defaults: ['Shift+ArrowDown'] },
+  { id: 'view.stats', label: '性能监视器', group: '视图', defaults: ['`'] },
+  { id: 'view.shortcuts', label: '快捷键速查表', group: '视图', defaults: ['?'] }
+];
+
+// 操作的快捷键说明，用于按钮提示
+export const formatShortcuts = (keymap: Keymap, id: ActionId): string => keymap[id].join(' / ') || '未设置';
+
+// 保存自定义快捷键的 localStorage 键
+const STORAGE_KEY = 'voxel-builder-keymap';
+
+// 单独按下时作为按键本身的修饰键
+const MODIFIER_KEYS = new Set(['Control', 'Alt', 'Shift', 'Meta']);
+
+// 默认快捷键
+export const createDefaultKeymap = (): Keymap =>
+  Object.fromEntries(ACTIONS.map(action => [action.id, [...action.defaults]])) as Keymap;
+
+// 按键名称：字母统一为大写，空格为 Space，Cmd 视为 Ctrl
+export const eventKeyName = (e: KeyboardEvent): string => {
+  if (e.key === ' ') return 'Space';
+  if (e.key === 'Meta' || e.key === 'Control') return 'Ctrl';
+  return e.key.length === 1 ? e.key.toUpperCase() : e.key;
+};
+
+// 将按键事件转换为快捷键文本；单独按下修饰键时只返回修饰键名称
+// 符号键的字符已经包含 Shift 的效果（如 ?），因此不再记录 Shift
+export const eventToShortcut = (e: KeyboardEvent): string => {
+  const key = eventKeyName(e);
+  if (MODIFIER_KEYS.has(e.key)) return key;
+  const isSymbol = e.key.length === 1 && e.key.toLowerCase() === e.key.toUpperCase();
+  const parts: string[] = [];
+  if (e.ctrlKey || e.metaKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey && !isSymbol) parts.push('Shift');
+  parts.push(key);
+  return parts.join('+');
+};
+
+// 查找按键事件对应的操作
+export const findAction = (keymap: Keymap, e: KeyboardEvent): ActionDefinition | null => {
+  const shortcut = eventToShortcut(e);
+  return ACTIONS.find(action => keymap[action.id].includes(shortcut)) ?? null;
+};
+
+// 查找冲突：被多个操作使用的快捷键及使用它的操作
+export const findConflicts = (keymap: Keymap): Map<string, ActionId[]> => {
+  const users = new Map<string, ActionId[]>();
+  ACTIONS.forEach(action => {
+    keymap[action.id].forEach(shortcut => users.set(shortcut, [...(users.get(shortcut) ?? []), action.id]));
+  });
+  return new Map(Array.from(users.entries()).filter(([, actions]) => actions.length > 1));
+};
+
+// 事件是否来自正在输入文字的控件（此时不触发快捷键）
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) {
+    return true;
+  }
+  return target instanceof HTMLInputElement &&
+    !['checkbox', 'radio', 'range', 'color', 'button', 'submit', 'reset', 'file'].includes(target.type);
+};
+
+// 读取保存的快捷键，缺失的操作使用默认快捷键，无法读取时返回默认快捷键
+export const loadKeymap = (): Keymap => {
+  const keymap = createDefaultKeymap();
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (typeof saved !== 'object' || saved === null) return keymap;
+    ACTIONS.forEach(action => {
+      const shortcuts = (saved as Record<string, unknown>)[action.id];
+      if (Array.isArray(shortcuts) && shortcuts.every(shortcut => typeof shortcut === 'string')) {
+        keymap[action.id] = shortcuts;
+      }
+    });
+  } catch (error) {
+    console.error("读取快捷键设置出错:", error);
+  }
+  return keymap;
+};
+
+// 保存快捷键设置
+export const saveKeymap = (keymap: Keymap) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(keymap));
+  } catch (error) {
+    console.error("保存快捷键设置出错:", error);
+  }
+};
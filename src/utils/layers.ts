@@ -0,0 +1,35 @@
+import type { Voxel } from '../hooks/useStore';
+
+// 图层 - 隐藏的图层不渲染、不参与拾取和导出，隐藏或锁定的图层中的体素不可编辑
+export interface Layer {
+  id: string;
+  name: string;
+  visible: boolean;
+  locked: boolean;
+}
+
+// 默认图层（新项目和旧版项目文件中的体素都放在该图层）
+export const DEFAULT_LAYER_ID = 'layer-1';
+
+export const createDefaultLayers = (): Layer[] => [
+  { id: DEFAULT_LAYER_ID, name: '图层 1', visible: true, locked: false }
+];
+
+// 生成不与已有图层重复的图层 id 和默认名称
+export const createLayer = (layers: Layer[]): Layer => {
+  let n = layers.length + 1;
+  while (layers.some(layer => layer.id === `layer-${n}`)) n++;
+  return { id: `layer-${n}`, name: `图层 ${n}`, visible: true, locked: false };
+};
+
+// 可见图层的 id
+export const getVisibleLayerIds = (layers: Layer[]): Set<string> =>
+  new Set(layers.filter(layer => layer.visible).map(layer => layer.id));
+
+// 可编辑（可见且未锁定）图层的 id
+export const getEditableLayerIds = (layers: Layer[]): Set<string> =>
+  new Set(layers.filter(layer => layer.visible && !layer.locked).map(layer => layer.id));
+
+// 只保留位于给定图层中的体素
+export const filterVoxelsByLayers = (voxels: Voxel[], layerIds: Set<string>): Voxel[] =>
+  voxels.filter(voxel => voxel.layer !== undefined && layerIds.has(voxel.layer));
@@ -0,0 +1,45 @@
+// 体素材质 - 体素通过 id 引用材质，颜色仍由体素自身决定
+export interface VoxelMaterial {
+  id: string;
+  name: string;
+  roughness: number;
+  metalness: number;
+  // 自发光强度，发光颜色为体素颜色
+  emissive: number;
+  // 不透明度，小于 1 时为透明材质
+  opacity: number;
+}
+
+// 自发光强度的上限
+export const MAX_EMISSIVE = 4;
+
+// 预设材质 - 不可编辑，也不写入项目文件的自定义材质表
+export const PRESET_MATERIALS: VoxelMaterial[] = [
+  { id: 'standard', name: '默认', roughness: 0.3, metalness: 0.2, emissive: 0, opacity: 1 },
+  { id: 'matte', name: '哑光', roughness: 0.9, metalness: 0, emissive: 0, opacity: 1 },
+  { id: 'metal', name: '金属', roughness: 0.25, metalness: 1, emissive: 0, opacity: 1 },
+  { id: 'glass', name: '玻璃', roughness: 0.05, metalness: 0, emissive: 0, opacity: 0.35 },
+  { id: 'emissive', name: '自发光', roughness: 0.5, metalness: 0, emissive: 1, opacity: 1 }
+];
+
+// 体素表面的默认材质参数（未指定材质的体素和各种预览使用）
+export const DEFAULT_MATERIAL = PRESET_MATERIALS[0];
+
+export const DEFAULT_MATERIAL_ID = DEFAULT_MATERIAL.id;
+
+// 是否为预设材质
+export const isPresetMaterial = (id: string): boolean => PRESET_MATERIALS.some(material => material.id === id);
+
+// 以给定材质为模板创建自定义材质，id 和名称不与已有材质重复
+export const createCustomMaterial = (materials: VoxelMaterial[], template: VoxelMaterial): VoxelMaterial => {
+  let n = 1;
+  while (materials.some(material => material.id === `custom-${n}`)) n++;
+  return { ...template, id: `custom-${n}`, name: `自定义 ${n}` };
+};
+
+// 按 id 查找材质，找不到时使用默认材质
+export const resolveMaterial = (materials: Map<string, VoxelMaterial>, id?: string): VoxelMaterial =>
+  (id !== undefined && materials.get(id)) || DEFAULT_MATERIAL;
+
+// 是否为透明材质（透明体素不遮挡相邻体素的面）
+export const isTransparentMaterial = (material: VoxelMaterial): boolean => material.opacity < 1;
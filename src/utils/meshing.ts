@@ -0,0 +1,365 @@
+import * as THREE from 'three';
+import type { Voxel } from '../hooks/useStore';
+import type { Axis } from './voxelIndex';
+import { VoxelMaterial, isTransparentMaterial, resolveMaterial } from './materials';
+
+// 合并后的矩形面 - 顶点为格点空间坐标（体素中心为整数，面位于 ±0.5 处），按逆时针顺序朝向法线外侧
+export interface Quad {
+  vertices: [number, number, number][];
+  normal: [number, number, number];
+  axis: Axis;
+  color: string;
+}
+
+// 判断格点是否被占据
+export type SolidLookup = (x: number, y: number, z: number) => boolean;
+
+// 根据体素列表创建格点占据查询
+export const createSolidLookup = (voxels: Voxel[]): SolidLookup => {
+  const solid = new Set(voxels.map(voxel => `${voxel.position.x},${voxel.position.y},${voxel.position.z}`));
+  return (x, y, z) => solid.has(`${x},${y},${z}`);
+};
+
+// 贪心合并体素的外露面：只输出邻居为空的面，并把同一平面上相邻的同色面合并成矩形
+export const buildGreedyQuads = (voxels: Voxel[], isSolid: SolidLookup): Quad[] => {
+  const quads: Quad[] = [];
+  
+  for (let d = 0; d < 3; d++) {
+    const u = (d + 1) % 3;
+    const v = (d + 2) % 3;
+    
+    for (const dir of [1, -1]) {
+      // 按切片收集外露面：切片坐标 -> (u,v) -> 颜色
+      const slices = new Map<number, Map<string, { u: number; v: number; color: string }>>();
+      
+      voxels.forEach(voxel => {
+        const cell = [voxel.position.x, voxel.position.y, voxel.position.z];
+        const neighbor = [...cell];
+        neighbor[d] += dir;
+        if (isSolid(neighbor[0], neighbor[1], neighbor[2])) return;
+        
+        let slice = slices.get(cell[d]);
+        if (!slice) {
+          slice = new Map();
+          slices.set(cell[d], slice);
+        }
+        slice.set(`${cell[u]},${cell[v]}`, { u: cell[u], v: cell[v], color: voxel.color });
+      });
+      
+      slices.forEach((faces, level) => {
+        // 按 v、u 排序，保证贪心扫描顺序稳定
+        const sorted = Array.from(faces.values()).sort((a, b) => a.v - b.v || a.u - b.u);
+        const visited = new Set<string>();
+        
+        sorted.forEach(face => {
+          const startKey = `${face.u},${face.v}`;
+          if (visited.has(startKey)) return;
+          
+          // 沿 u 方向扩展宽度
+          let width = 1;
+          while (true) {
+            const key = `${face.u + width},${face.v}`;
+            const next = faces.get(key);
+            if (!next || next.color !== face.color || visited.has(key)) break;
+            width++;
+          }
+          
+          // 沿 v 方向扩展高度，要求整行都可合并
+          let height = 1;
+          while (true) {
+            let rowOk = true;
+            for (let i = 0; i < width; i++) {
+              const key = `${face.u + i},${face.v + height}`;
+              const next = faces.get(key);
+              if (!next || next.color !== face.color || visited.has(key)) {
+                rowOk = false;
+                break;
+              }
+            }
+            if (!rowOk) break;
+            height++;
+          }
+          
+          for (let j = 0; j < height; j++) {
+            for (let i = 0; i < width; i++) {
+              visited.add(`${face.u + i},${face.v + j}`);
+            }
+          }
+          
+          quads.push(createQuad(d as Axis, dir, level, face.u, face.v, width, height, face.color));
+        });
+      });
+    }
+  }
+  
+  return quads;
+};
+
+// 按格点查询体素
+export type VoxelLookup = (x: number, y: number, z: number) => Voxel | undefined;
+
+// 根据体素列表创建按格点查询体素的函数
+export const createVoxelLookup = (voxels: Voxel[]): VoxelLookup => {
+  const cells = new Map(voxels.map(voxel => [`${voxel.position.x},${voxel.position.y},${voxel.position.z}`, voxel]));
+  return (x, y, z) => cells.get(`${x},${y},${z}`);
+};
+
+// 同一材质（自发光材质还需同色）的合并面，可用同一个网格材质渲染
+export interface MaterialQuads {
+  key: string;
+  material: VoxelMaterial;
+  // 自发光材质的发光颜色，其他材质为 null
+  emissiveColor: string | null;
+  quads: Quad[];
+}
+
+// 按材质分组生成合并面：不透明体素遮挡任意相邻面，透明体素只遮挡同一材质的相邻面（玻璃内部不产生面）
+export const buildMaterialQuads = (
+  voxels: Voxel[],
+  lookup: VoxelLookup,
+  materials: Map<string, VoxelMaterial>
+): MaterialQuads[] => {
+  const groups = new Map<string, { material: VoxelMaterial; emissiveColor: string | null; voxels: Voxel[] }>();
+  voxels.forEach(voxel => {
+    const material = resolveMaterial(materials, voxel.material);
+    const emissiveColor = material.emissive > 0 ? voxel.color : null;
+    const key = emissiveColor ? `${material.id}:${emissiveColor}` : material.id;
+    let group = groups.get(key);
+    if (!group) {
+      group = { material, emissiveColor, voxels: [] };
+      groups.set(key, group);
+    }
+    group.voxels.push(voxel);
+  });
+  
+  return Array.from(groups.entries()).map(([key, group]) => {
+    const occludes: SolidLookup = (x, y, z) => {
+      const neighbor = lookup(x, y, z);
+      if (!neighbor) return false;
+      const material = resolveMaterial(materials, neighbor.material);
+      return !isTransparentMaterial(material) || material.id === group.material.id;
+    };
+    return { key, material: group.material, emissiveColor: group.emissiveColor, quads: buildGreedyQuads(group.voxels, occludes) };
+  });
+};
+
+// 根据切片和矩形范围生成四边形顶点
+const createQuad = (
+  d: Axis,
+  dir: number,
+  level: number,
+  u0: number,
+  v0: number,
+  width: number,
+  height: number,
+  color: string
+): Quad => {
+  const u = (d + 1) % 3;
+  const v = (d + 2) % 3;
+  const plane = level + dir * 0.5;
+  const corners: [number, number][] = [
+    [u0 - 0.5, v0 - 0.5],
+    [u0 + width - 0.5, v0 - 0.5],
+    [u0 + width - 0.5, v0 + height - 0.5],
+    [u0 - 0.5, v0 + height - 0.5]
+  ];
+  // u × v = d，正方向时逆时针，负方向时反转顺序
+  if (dir < 0) corners.reverse();
+  
+  const vertices = corners.map(([cu, cv]) => {
+    const vertex: [number, number, number] = [0, 0, 0];
+    vertex[d] = plane;
+    vertex[u] = cu;
+    vertex[v] = cv;
+    return vertex;
+  });
+  
+  const normal: [number, number, number] = [0, 0, 0];
+  normal[d] = dir;
+  
+  return { vertices, normal, axis: d, color };
+};
+
+// 将矩形面转换为带顶点颜色的 BufferGeometry，scale 为每个格点的尺寸
+export const quadsToGeometry = (quads: Quad[], scale: number): THREE.BufferGeometry => {
+  const positions = new Float32Array(quads.length * 4 * 3);
+  const normals = new Float32Array(quads.length * 4 * 3);
+  const colors = new Float32Array(quads.length * 4 * 3);
+  const indices: number[] = [];
+  const color = new THREE.Color();
+  
+  quads.forEach((quad, q) => {
+    color.set(quad.color);
+    quad.vertices.forEach((vertex, i) => {
+      const offset = (q * 4 + i) * 3;
+      positions[offset] = vertex[0] * scale;
+      positions[offset + 1] = vertex[1] * scale;
+      positions[offset + 2] = vertex[2] * scale;
+      normals[offset] = quad.normal[0];
+      normals[offset + 1] = quad.normal[1];
+      normals[offset + 2] = quad.normal[2];
+      colors[offset] = color.r;
+      colors[offset + 1] = color.g;
+      colors[offset + 2] = color.b;
+    });
+    const base = q * 4;
+    indices.push(base, base + 1, base + 2, base, base + 2, base + 3);
+  });
+  
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute('normal', new THREE.BufferAttribute(normals, 3));
+  geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+  geometry.setIndex(indices);
+  geometry.computeBoundingSphere();
+  geometry.computeBoundingBox();
+  return geometry;
+};
+
+// 封闭三角网格 - 顶点为格点空间坐标，三角形顶点按逆时针顺序朝向外侧
+export interface ClosedMesh {
+  vertices: [number, number, number][];
+  triangles: [number, number, number][];
+  // 每个三角形所在面的法线
+  normals: [number, number, number][];
+}
+
+// 分离只有棱相接的体素时，棱中点向各自体素中心偏移的比例
+const SEAM_OFFSET = 0.001;
+
+// 生成封闭、流形的表面网格（用于 3D 打印）：
+// 1. 同一平面上的外露面不区分颜色合并为矩形
+// 2. 在矩形边上补入相邻矩形的顶点，消除 T 形接缝
+// 3. 两个体素只有一条棱相接时，在棱中点处各自生成一个略微内缩的顶点，使每条边恰好被两个三角形共享
+export const buildClosedMesh = (voxels: Voxel[]): ClosedMesh => {
+  const isSolid = createSolidLookup(voxels);
+  const quads = buildGreedyQuads(voxels.map(voxel => ({ ...voxel, color: '' })), isSolid);
+  
+  // 以下计算使用角点坐标（格点坐标 + 0.5），角点均为整数
+  // 直线键：沿 axis 方向、另外两个坐标固定的直线
+  const lineKey = (axis: number, point: number[]) =>
+    `${axis}:${point[(axis + 1) % 3]},${point[(axis + 2) % 3]}`;
+  const linePoints = new Map<string, Set<number>>();
+  const addLinePoint = (axis: number, point: number[]) => {
+    const key = lineKey(axis, point);
+    let points = linePoints.get(key);
+    if (!points) {
+      points = new Set();
+      linePoints.set(key, points);
+    }
+    points.add(point[axis]);
+  };
+  
+  const corners = quads.map(quad => quad.vertices.map(vertex => vertex.map(n => n + 0.5)));
+  corners.forEach(points => points.forEach(point => {
+    for (let axis = 0; axis < 3; axis++) addLinePoint(axis, point);
+  }));
+  
+  // 找出只有对角两个格点被占据的棱（非流形棱），键为直线键加起点
+  const seams = new Set<string>();
+  voxels.forEach(voxel => {
+    const cell = [voxel.position.x, voxel.position.y, voxel.position.z];
+    for (let axis = 0; axis < 3; axis++) {
+      const u = (axis + 1) % 3;
+      const v = (axis + 2) % 3;
+      for (let du = 0; du <= 1; du++) {
+        for (let dv = 0; dv <= 1; dv++) {
+          // 棱周围的四个格点
+          const around = (su: number, sv: number) => {
+            const c = [...cell];
+            c[u] += du - 1 + su;
+            c[v] += dv - 1 + sv;
+            return isSolid(c[0], c[1], c[2]);
+          };
+          const s00 = around(0, 0);
+          const s11 = around(1, 1);
+          const s01 = around(0, 1);
+          const s10 = around(1, 0);
+          if (s00 !== s11 || s01 !== s10 || s00 === s01) continue;
+          
+          const start = [...cell];
+          start[u] += du;
+          start[v] += dv;
+          const key = `${lineKey(axis, start)}:${start[axis]}`;
+          if (seams.has(key)) continue;
+          seams.add(key);
+          const end = [...start];
+          end[axis] += 1;
+          addLinePoint(axis, start);
+          addLinePoint(axis, end);
+        }
+      }
+    }
+  });
+  
+  const sortedLines = new Map<string, number[]>();
+  linePoints.forEach((points, key) => sortedLines.set(key, Array.from(points).sort((a, b) => a - b)));
+  
+  const vertices: [number, number, number][] = [];
+  const vertexIds = new Map<string, number>();
+  const triangles: [number, number, number][] = [];
+  const normals: [number, number, number][] = [];
+  
+  // 角点坐标转换回格点坐标并去重
+  const vertexId = (point: number[]) => {
+    const position: [number, number, number] = [point[0] - 0.5, point[1] - 0.5, point[2] - 0.5];
+    const key = position.join(',');
+    let id = vertexIds.get(key);
+    if (id === undefined) {
+      id = vertices.length;
+      vertices.push(position);
+      vertexIds.set(key, id);
+    }
+    return id;
+  };
+  
+  quads.forEach((quad, q) => {
+    const points = corners[q];
+    const center = [0, 1, 2].map(axis => points.reduce((sum, p) => sum + p[axis], 0) / 4);
+    const boundary: number[] = [];
+    
+    points.forEach((from, i) => {
+      const to = points[(i + 1) % 4];
+      const axis = [0, 1, 2].find(a => from[a] !== to[a])!;
+      const step = Math.sign(to[axis] - from[axis]);
+      
+      // 边上的所有顶点（含起点，不含终点），按前进方向排列
+      const along = sortedLines.get(lineKey(axis, from))!
+        .filter(n => (n - from[axis]) * step >= 0 && (to[axis] - n) * step > 0);
+      if (step < 0) along.reverse();
+      
+      along.forEach(n => {
+        const point = [...from];
+        point[axis] = n;
+        boundary.push(vertexId(point));
+        
+        // 非流形棱：插入偏向本面所属体素的中点
+        const seamStart = step > 0 ? n : n - 1;
+        if (!seams.has(`${lineKey(axis, from)}:${seamStart}`)) return;
+        const middle = [...point];
+        middle[axis] = seamStart + 0.5;
+        const inward = [0, 1, 2].find(a => a !== axis && a !== quad.axis)!;
+        const cellCenter = [...middle];
+        cellCenter[inward] += Math.sign(center[inward] - middle[inward]) * 0.5;
+        cellCenter[quad.axis] -= quad.normal[quad.axis] * 0.5;
+        boundary.push(vertexId(middle.map((m, a) => m + (cellCenter[a] - m) * SEAM_OFFSET)));
+      });
+    });
+    
+    if (boundary.length === 4) {
+      triangles.push([boundary[0], boundary[1], boundary[2]], [boundary[0], boundary[2], boundary[3]]);
+      normals.push(quad.normal, quad.normal);
+      return;
+    }
+    
+    // 边上有额外顶点时，以矩形中心为扇形中心三角化，避免退化三角形
+    const centerId = vertices.length;
+    vertices.push([center[0] - 0.5, center[1] - 0.5, center[2] - 0.5]);
+    boundary.forEach((id, i) => {
+      triangles.push([centerId, id, boundary[(i + 1) % boundary.length]]);
+      normals.push(quad.normal);
+    });
+  });
+  
+  return { vertices, triangles, normals };
+};
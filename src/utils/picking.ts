@@ -0,0 +1,46 @@
+import * as THREE from 'three';
+import type { Voxel } from '../hooks/useStore';
+import { VoxelIndex, cellOf } from './voxelIndex';
+import { cellFromHit, snapNormalToAxis } from './grid';
+
+// 射线击中的体素面
+export interface FaceHit {
+  // 被击中体素的格点坐标
+  cell: THREE.Vector3;
+  // 量化到主轴的面法线
+  normal: THREE.Vector3;
+  voxel: Voxel;
+}
+
+// 用已设置好的射线检测场景中最近的体素面（忽略预览体素）
+export const pickVoxelFace = (raycaster: THREE.Raycaster, scene: THREE.Scene, voxelIndex: VoxelIndex): FaceHit | null => {
+  // 收集所有非预览的体素物体用于射线检测
+  const voxelMeshes: THREE.Object3D[] = [];
+  scene.traverse((object) => {
+    if (object.userData?.type === 'voxel' && !object.userData?.isPreview) {
+      voxelMeshes.push(object);
+    }
+  });
+
+  // 取第一个相交点（最近的）
+  const intersection = raycaster.intersectObjects(voxelMeshes, false)[0];
+  if (!intersection?.face) return null;
+
+  // 获取面的法向量并转换为世界坐标，量化为主轴方向
+  const faceNormal = intersection.face.normal.clone().transformDirection(intersection.object.matrixWorld);
+  const normal = snapNormalToAxis(faceNormal);
+
+  // 根据交点换算相交体素的格点坐标
+  const cell = cellFromHit(intersection.point, normal);
+  const voxel = voxelIndex.get(cellOf(cell));
+  return voxel ? { cell, normal, voxel } : null;
+};
+
+// 鼠标事件位置转换为画布上的标准化设备坐标
+export const eventToNdc = (e: MouseEvent, canvas: HTMLCanvasElement, target = new THREE.Vector2()): THREE.Vector2 => {
+  const rect = canvas.getBoundingClientRect();
+  return target.set(
+    (e.clientX - rect.left) / rect.width * 2 - 1,
+    -((e.clientY - rect.top) / rect.height) * 2 + 1
+  );
+};
@@ -0,0 +1,275 @@
+import { Vector3 } from 'three';
+import { DEFAULT_COLOR, type Voxel } from '../hooks/useStore';
+import { DEFAULT_VOXEL_SIZE_MM } from './grid';
+import { cellKey, cellOf } from './voxelIndex';
+import { Layer, createDefaultLayers, DEFAULT_LAYER_ID } from './layers';
+import { VoxelMaterial, PRESET_MATERIALS, DEFAULT_MATERIAL_ID, MAX_EMISSIVE, isPresetMaterial } from './materials';
+
+// 项目文件标识
+export const PROJECT_FORMAT = 'voxel-builder-project';
+
+// 当前项目文件版本
+// v1: 体素以 [x, y, z, 颜色索引] 保存，坐标为整数格点，颜色存放在 colors 表中
+// v2: 体素以 [x, y, z, 颜色索引, 图层索引] 保存，图层存放在 layers 表中
+// v3: 体素以 [x, y, z, 颜色索引, 图层索引, 材质索引] 保存，材质存放在 materials 表中
+export const PROJECT_VERSION = 3;
+
+// 相机状态
+export interface CameraState {
+  position: [number, number, number];
+  target: [number, number, number];
+}
+
+// 默认相机，与 Scene 中 Canvas 的初始相机一致
+export const DEFAULT_CAMERA: CameraState = {
+  position: [5, 5, 5],
+  target: [0, 0, 0]
+};
+
+// 解析后的项目数据
+export interface ProjectData {
+  voxels: Voxel[];
+  voxelSize: number;
+  activeColor: string;
+  recentColors: string[];
+  camera: CameraState | null;
+  layers: Layer[];
+  activeLayer: string;
+  // 完整的材质库（预设材质在前）
+  materials: VoxelMaterial[];
+  activeMaterial: string;
+}
+
+// 项目文件错误 - message 为可直接展示给用户的说明
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+// 校验辅助函数
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isVector = (value: unknown): value is [number, number, number] => {
+  return Array.isArray(value) && value.length === 3 && value.every(n => typeof n === 'number' && Number.isFinite(n));
+};
+
+const readColor = (value: unknown, where: string): string => {
+  if (typeof value !== 'string' || !HEX_COLOR.test(value)) {
+    throw new ProjectFileError(`${where}的颜色无效: ${JSON.stringify(value)}，应为 #rrggbb 格式`);
+  }
+  return value.toLowerCase();
+};
+
+// 序列化项目为 JSON 文本（当前版本）
+export const serializeProject = (project: ProjectData): string => {
+  const colors: string[] = [];
+  const colorIndices = new Map<string, number>();
+  
+  const layerIndices = new Map(project.layers.map((layer, i) => [layer.id, i]));
+  const materialIndices = new Map(project.materials.map((material, i) => [material.id, i]));
+  
+  const voxels = project.voxels.map(voxel => {
+    let index = colorIndices.get(voxel.color);
+    if (index === undefined) {
+      index = colors.length;
+      colors.push(voxel.color);
+      colorIndices.set(voxel.color, index);
+    }
+    const layerIndex = layerIndices.get(voxel.layer ?? project.activeLayer) ?? 0;
+    const materialIndex = materialIndices.get(voxel.material ?? DEFAULT_MATERIAL_ID) ?? 0;
+    return [voxel.position.x, voxel.position.y, voxel.position.z, index, layerIndex, materialIndex];
+  });
+  
+  return JSON.stringify({
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    voxelSize: project.voxelSize,
+    camera: project.camera,
+    palette: {
+      activeColor: project.activeColor,
+      recentColors: project.recentColors
+    },
+    layers: project.layers,
+    activeLayer: project.activeLayer,
+    materials: project.materials,
+    activeMaterial: project.activeMaterial,
+    colors,
+    voxels
+  });
+};
+
+// 读取图层表（v2）
+const readLayers = (raw: unknown): Layer[] => {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new ProjectFileError('layers 字段缺失或为空');
+  }
+  const seen = new Set<string>();
+  return raw.map((entry, i) => {
+    if (!isObject(entry) || typeof entry.id !== 'string' || !entry.id || typeof entry.name !== 'string' ||
+        typeof entry.visible !== 'boolean' || typeof entry.locked !== 'boolean') {
+      throw new ProjectFileError(`图层表第 ${i + 1} 项格式无效`);
+    }
+    if (seen.has(entry.id)) {
+      throw new ProjectFileError(`图层 id 重复: ${entry.id}`);
+    }
+    seen.add(entry.id);
+    return { id: entry.id, name: entry.name, visible: entry.visible, locked: entry.locked };
+  });
+};
+
+// 读取 0 到 max 之间的材质参数
+const readMaterialValue = (value: unknown, max: number, where: string): number => {
+  if (typeof value !== 'number' || !(value >= 0 && value <= max)) {
+    throw new ProjectFileError(`${where}无效: ${JSON.stringify(value)}，应为 0 到 ${max} 之间的数值`);
+  }
+  return value;
+};
+
+// 读取材质表（v3）- 预设材质使用内置参数，自定义材质使用文件中的参数；返回的材质库总是包含全部预设材质
+const readMaterials = (raw: unknown): { library: VoxelMaterial[]; table: VoxelMaterial[] } => {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new ProjectFileError('materials 字段缺失或为空');
+  }
+  const seen = new Set<string>();
+  const table = raw.map((entry, i) => {
+    if (!isObject(entry) || typeof entry.id !== 'string' || !entry.id || typeof entry.name !== 'string') {
+      throw new ProjectFileError(`材质表第 ${i + 1} 项格式无效`);
+    }
+    if (seen.has(entry.id)) {
+      throw new ProjectFileError(`材质 id 重复: ${entry.id}`);
+    }
+    seen.add(entry.id);
+    const preset = PRESET_MATERIALS.find(material => material.id === entry.id);
+    if (preset) return preset;
+    const where = `材质 ${entry.name} 的`;
+    return {
+      id: entry.id,
+      name: entry.name,
+      roughness: readMaterialValue(entry.roughness, 1, `${where}粗糙度`),
+      metalness: readMaterialValue(entry.metalness, 1, `${where}金属度`),
+      emissive: readMaterialValue(entry.emissive, MAX_EMISSIVE, `${where}自发光强度`),
+      opacity: readMaterialValue(entry.opacity, 1, `${where}不透明度`)
+    };
+  });
+  return { library: [...PRESET_MATERIALS, ...table.filter(material => !isPresetMaterial(material.id))], table };
+};
+
+// 读取体素列表（整数格点 + 颜色表），v2 起每个体素还带有图层索引，v3 起还带有材质索引
+const readVoxels = (raw: unknown, rawColors: unknown, layers: Layer[] | null, materials: VoxelMaterial[] | null): Voxel[] => {
+  if (!Array.isArray(rawColors)) {
+    throw new ProjectFileError('colors 字段缺失或不是数组');
+  }
+  const colors = rawColors.map((color, i) => readColor(color, `颜色表第 ${i + 1} 项`));
+  
+  if (!Array.isArray(raw)) {
+    throw new ProjectFileError('voxels 字段缺失或不是数组');
+  }
+  const length = materials ? 6 : layers ? 5 : 4;
+  const fields = `颜色索引${layers ? ', 图层索引' : ''}${materials ? ', 材质索引' : ''}`;
+  return raw.map((entry, i) => {
+    if (!Array.isArray(entry) || entry.length !== length || !entry.every(n => Number.isInteger(n))) {
+      throw new ProjectFileError(`第 ${i + 1} 个体素格式无效，应为 [x, y, z, ${fields}] 整数数组`);
+    }
+    const [x, y, z, colorIndex, layerIndex, materialIndex] = entry as number[];
+    const color = colors[colorIndex];
+    if (color === undefined) {
+      throw new ProjectFileError(`第 ${i + 1} 个体素引用了不存在的颜色索引 ${colorIndex}`);
+    }
+    if (!layers) {
+      return { position: new Vector3(x, y, z), color, layer: DEFAULT_LAYER_ID, material: DEFAULT_MATERIAL_ID };
+    }
+    const layer = layers[layerIndex];
+    if (layer === undefined) {
+      throw new ProjectFileError(`第 ${i + 1} 个体素引用了不存在的图层索引 ${layerIndex}`);
+    }
+    if (!materials) {
+      return { position: new Vector3(x, y, z), color, layer: layer.id, material: DEFAULT_MATERIAL_ID };
+    }
+    const material = materials[materialIndex];
+    if (material === undefined) {
+      throw new ProjectFileError(`第 ${i + 1} 个体素引用了不存在的材质索引 ${materialIndex}`);
+    }
+    return { position: new Vector3(x, y, z), color, layer: layer.id, material: material.id };
+  });
+};
+
+// 解析并校验项目文件，成功时返回完整的项目数据，失败时抛出 ProjectFileError
+export const parseProject = (text: string): ProjectData => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError('文件不是有效的 JSON');
+  }
+  
+  if (!isObject(raw) || raw.format !== PROJECT_FORMAT) {
+    throw new ProjectFileError('这不是体素项目文件');
+  }
+  
+  const version = raw.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new ProjectFileError(`项目文件版本无效: ${JSON.stringify(version)}`);
+  }
+  if (version > PROJECT_VERSION) {
+    throw new ProjectFileError(`项目文件版本 ${version} 高于当前支持的版本 ${PROJECT_VERSION}，请升级应用`);
+  }
+  
+  // v2 之前的项目没有图层，所有体素放在默认图层
+  const layers = version >= 2 ? readLayers(raw.layers) : createDefaultLayers();
+  const activeLayer = typeof raw.activeLayer === 'string' && layers.some(layer => layer.id === raw.activeLayer)
+    ? raw.activeLayer
+    : layers[0].id;
+  // v3 之前的项目没有材质，所有体素使用默认材质
+  const materials = version >= 3 ? readMaterials(raw.materials) : { library: PRESET_MATERIALS, table: PRESET_MATERIALS };
+  const activeMaterial = typeof raw.activeMaterial === 'string' &&
+    materials.library.some(material => material.id === raw.activeMaterial)
+    ? raw.activeMaterial
+    : DEFAULT_MATERIAL_ID;
+  const voxels = readVoxels(raw.voxels, raw.colors, version >= 2 ? layers : null, version >= 3 ? materials.table : null);
+  
+  // 检查重复位置
+  const seen = new Set<string>();
+  voxels.forEach(voxel => {
+    const key = cellKey(cellOf(voxel.position));
+    if (seen.has(key)) {
+      throw new ProjectFileError(`位置 (${key}) 上有重复的体素`);
+    }
+    seen.add(key);
+  });
+  
+  // 体素尺寸（毫米），缺省时使用默认尺寸
+  let voxelSize = DEFAULT_VOXEL_SIZE_MM;
+  if (raw.voxelSize !== undefined) {
+    if (typeof raw.voxelSize !== 'number' || !(raw.voxelSize > 0) || !Number.isFinite(raw.voxelSize)) {
+      throw new ProjectFileError(`体素尺寸无效: ${JSON.stringify(raw.voxelSize)}`);
+    }
+    voxelSize = raw.voxelSize;
+  }
+  
+  // 相机（可选）
+  let camera: CameraState | null = null;
+  if (raw.camera !== undefined && raw.camera !== null) {
+    if (!isObject(raw.camera) || !isVector(raw.camera.position) || !isVector(raw.camera.target)) {
+      throw new ProjectFileError('相机数据无效');
+    }
+    camera = { position: raw.camera.position, target: raw.camera.target };
+  }
+  
+  // 调色板（可选），缺失时使用第一个体素的颜色
+  const palette = isObject(raw.palette) ? raw.palette : {};
+  const activeColor = palette.activeColor !== undefined
+    ? readColor(palette.activeColor, '当前颜色')
+    : voxels[0]?.color ?? DEFAULT_COLOR;
+  const recentColors = Array.isArray(palette.recentColors)
+    ? palette.recentColors.map((color, i) => readColor(color, `最近颜色第 ${i + 1} 项`))
+    : [activeColor];
+  
+  return { voxels, voxelSize, activeColor, recentColors, camera, layers, activeLayer,
+    materials: materials.library, activeMaterial };
+};
@@ -0,0 +1,42 @@
+import { Vector3 } from 'three';
+import { CHUNK_SIZE, Cell, parseCellKey } from './voxelIndex';
+
+// 剖切面垂直的轴
+export type SectionAxis = 'x' | 'y' | 'z';
+
+// 剖切设置 - position 为保留的最后一层格点坐标，flip 时保留 position 及坐标更大的一侧
+export interface SectionSettings {
+  enabled: boolean;
+  axis: SectionAxis;
+  position: number;
+  flip: boolean;
+}
+
+export const SECTION_AXIS_INDEX: Record<SectionAxis, 0 | 1 | 2> = { x: 0, y: 1, z: 2 };
+
+// 格点是否位于剖切面之外（被隐藏）
+export const isCellClipped = (cell: Cell, section: SectionSettings): boolean => {
+  if (!section.enabled) return false;
+  const coord = cell[SECTION_AXIS_INDEX[section.axis]];
+  return section.flip ? coord < section.position : coord > section.position;
+};
+
+// 剖切面外侧的法线方向（被剖开的面朝向该方向）
+export const getSectionNormal = (section: SectionSettings): Vector3 => {
+  const normal = new Vector3();
+  normal[section.axis] = section.flip ? -1 : 1;
+  return normal;
+};
+
+// 分块受剖切影响的程度：none 表示分块及其相邻格点都未被剖切，all 表示分块内的格点全部被剖切
+export const getChunkClip = (chunkKey: string, section: SectionSettings): 'none' | 'partial' | 'all' => {
+  if (!section.enabled) return 'none';
+  const min = parseCellKey(chunkKey)[SECTION_AXIS_INDEX[section.axis]] * CHUNK_SIZE;
+  const max = min + CHUNK_SIZE - 1;
+  if (section.flip) {
+    if (max < section.position) return 'all';
+    return min > section.position ? 'none' : 'partial';
+  }
+  if (min > section.position) return 'all';
+  return max < section.position ? 'none' : 'partial';
+};
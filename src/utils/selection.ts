@@ -0,0 +1,52 @@
+import { Vector3 } from 'three';
+import type { Voxel } from '../hooks/useStore';
+import { axisOf } from './voxelIndex';
+
+// 体素集合的格点包围盒（含两端）
+export interface CellBounds {
+  min: Vector3;
+  max: Vector3;
+}
+
+// 计算体素集合的包围盒，集合为空时返回 null
+export const getCellBounds = (voxels: Voxel[]): CellBounds | null => {
+  if (voxels.length === 0) return null;
+  const min = voxels[0].position.clone();
+  const max = voxels[0].position.clone();
+  voxels.forEach(voxel => {
+    min.min(voxel.position);
+    max.max(voxel.position);
+  });
+  return { min, max };
+};
+
+// 复制体素并平移到包围盒最小角位于原点，作为剪贴板内容
+export const normalizeClipboard = (voxels: Voxel[]): Voxel[] => {
+  const bounds = getCellBounds(voxels);
+  if (!bounds) return [];
+  return voxels.map(voxel => ({
+    position: voxel.position.clone().sub(bounds.min),
+    color: voxel.color,
+    material: voxel.material
+  }));
+};
+
+// 计算粘贴位置：内容紧贴在悬停面的外侧，另外两个方向以目标格点为中心
+// target 为悬停面外侧的空格点，normal 为悬停面的法线；返回剪贴板原点应放置的格点
+export const getPasteOrigin = (clipboard: Voxel[], target: Vector3, normal: Vector3): Vector3 => {
+  const bounds = getCellBounds(clipboard);
+  if (!bounds) return target.clone();
+
+  const size = bounds.max.clone().sub(bounds.min).addScalar(1).toArray();
+  const origin = target.toArray();
+  const axis = axisOf(normal);
+  for (let a = 0; a < 3; a++) {
+    if (a === axis) {
+      // 法线为负方向时，内容向负方向延伸
+      if (normal.getComponent(a) < 0) origin[a] -= size[a] - 1;
+    } else {
+      origin[a] -= Math.floor(size[a] / 2);
+    }
+  }
+  return new Vector3().fromArray(origin);
+};
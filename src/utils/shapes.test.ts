@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { Vector3 } from 'three';
+import type { Voxel } from '../hooks/useStore';
+import { MAX_SHAPE_SIZE, ShapeOptions, bresenhamLine, generateShape } from './shapes';
+
+const shape = (overrides: Partial<ShapeOptions>) => generateShape({
+  kind: 'sphere',
+  width: 8,
+  depth: 8,
+  height: 8,
+  hollow: false,
+  axis: 'y',
+  ...overrides
+}, '#ff0000');
+
+// 体素包围盒的尺寸
+const extentOf = (voxels: Voxel[]) => {
+  const min = new Vector3(Infinity, Infinity, Infinity);
+  const max = new Vector3(-Infinity, -Infinity, -Infinity);
+  voxels.forEach(voxel => {
+    min.min(voxel.position);
+    max.max(voxel.position);
+  });
+  return max.sub(min).addScalar(1).toArray();
+};
+
+const keysOf = (voxels: Voxel[]) => new Set(voxels.map(voxel => voxel.position.toArray().join(',')));
+
+describe('generateShape', () => {
+  it('小尺寸球体的体素数', () => {
+    // 直径 3：中心、6 个面邻居和 12 个棱邻居
+    expect(shape({ width: 3, depth: 3, height: 3 })).toHaveLength(19);
+    // 直径 1 只有一个体素
+    expect(shape({ width: 1, depth: 1, height: 1 })).toHaveLength(1);
+  });
+
+  it('球体的体素数接近球的体积，包围盒等于直径', () => {
+    const voxels = shape({ width: 20, depth: 20, height: 20 });
+    const expected = 4 / 3 * Math.PI * 10 ** 3;
+
+    expect(Math.abs(voxels.length - expected) / expected).toBeLessThan(0.05);
+    expect(extentOf(voxels)).toEqual([20, 20, 20]);
+    expect(voxels.every(voxel => voxel.position.x >= 0 && voxel.position.y >= 0 && voxel.position.z >= 0)).toBe(true);
+  });
+
+  it('空心球体只保留有面邻居在外部的表层格点', () => {
+    const solid = shape({ width: 12, depth: 12, height: 12 });
+    const hollow = shape({ width: 12, depth: 12, height: 12, hollow: true });
+    const cells = keysOf(solid);
+
+    expect(hollow.length).toBeLessThan(solid.length);
+    hollow.forEach(voxel => {
+      const { x, y, z } = voxel.position;
+      const neighbors = [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]]
+        .map(([dx, dy, dz]) => `${x + dx},${y + dy},${z + dz}`);
+      expect(neighbors.some(key => !cells.has(key))).toBe(true);
+    });
+  });
+
+  it('圆柱体的体素数为截面格数乘以高度', () => {
+    // 直径 4 的截面为 4×4 去掉四个角
+    expect(shape({ kind: 'cylinder', width: 4, depth: 4, height: 5 })).toHaveLength(12 * 5);
+    // 空心时去掉中间 3 层的 2×2 内部格点
+    expect(shape({ kind: 'cylinder', width: 4, depth: 4, height: 5, hollow: true })).toHaveLength(12 * 5 - 4 * 3);
+
+    const voxels = shape({ kind: 'cylinder', width: 16, depth: 16, height: 3 });
+    expect(Math.abs(voxels.length / 3 - Math.PI * 8 ** 2) / (Math.PI * 8 ** 2)).toBeLessThan(0.05);
+  });
+
+  it('圆柱体沿主轴方向延伸', () => {
+    expect(extentOf(shape({ kind: 'cylinder', width: 6, depth: 4, height: 10, axis: 'x' }))).toEqual([10, 6, 4]);
+    expect(extentOf(shape({ kind: 'cylinder', width: 6, depth: 4, height: 10, axis: 'y' }))).toEqual([6, 10, 4]);
+    expect(extentOf(shape({ kind: 'cylinder', width: 6, depth: 4, height: 10, axis: 'z' }))).toEqual([6, 4, 10]);
+  });
+
+  it('单层棱锥为完整的长方形底面，空心时单层没有内部格点', () => {
+    expect(shape({ kind: 'pyramid', width: 5, depth: 7, height: 1 })).toHaveLength(5 * 7);
+    expect(shape({ kind: 'pyramid', width: 5, depth: 7, height: 1, hollow: true })).toHaveLength(5 * 7);
+  });
+
+  it('尺寸限制在 1 到上限之间', () => {
+    expect(extentOf(shape({ kind: 'cylinder', width: 0, depth: 0, height: 0 }))).toEqual([1, 1, 1]);
+    expect(extentOf(shape({ kind: 'cylinder', width: 2, depth: 2, height: MAX_SHAPE_SIZE + 10 }))[1]).toBe(MAX_SHAPE_SIZE);
+  });
+});
+
+describe('bresenhamLine', () => {
+  // 相邻格点至少共享一个顶点
+  const expectContinuous = (cells: Vector3[]) => {
+    for (let i = 1; i < cells.length; i++) {
+      const step = cells[i].clone().sub(cells[i - 1]);
+      expect(Math.max(Math.abs(step.x), Math.abs(step.y), Math.abs(step.z))).toBe(1);
+    }
+  };
+
+  it('包含两个端点且连续', () => {
+    const cases: [Vector3, Vector3][] = [
+      [new Vector3(0, 0, 0), new Vector3(10, 0, 0)],
+      [new Vector3(0, 0, 0), new Vector3(7, 3, 0)],
+      [new Vector3(2, -5, 1), new Vector3(-6, 4, 9)],
+      [new Vector3(3, 3, 3), new Vector3(-3, -3, -3)],
+      [new Vector3(0, 0, 0), new Vector3(1, 20, -13)]
+    ];
+
+    cases.forEach(([from, to]) => {
+      const cells = bresenhamLine(from, to);
+      const delta = to.clone().sub(from);
+
+      expect(cells[0].toArray()).toEqual(from.toArray());
+      expect(cells[cells.length - 1].toArray()).toEqual(to.toArray());
+      // 每步沿主轴前进一格，格点数为主轴长度加 1
+      expect(cells).toHaveLength(Math.max(Math.abs(delta.x), Math.abs(delta.y), Math.abs(delta.z)) + 1);
+      expectContinuous(cells);
+    });
+  });
+
+  it('起点和终点相同时只有一个格点', () => {
+    expect(bresenhamLine(new Vector3(4, 5, 6), new Vector3(4, 5, 6)).map(cell => cell.toArray())).toEqual([[4, 5, 6]]);
+  });
+
+  it('非整数端点取最近的格点', () => {
+    const cells = bresenhamLine(new Vector3(0.4, 0.6, 0.2), new Vector3(5.2, 0.4, 2.7));
+
+    expect(cells[0].toArray()).toEqual([0, 1, 0]);
+    expect(cells[cells.length - 1].toArray()).toEqual([5, 0, 3]);
+    expectContinuous(cells);
+  });
+});
@@ -0,0 +1,131 @@
+import { Vector3 } from 'three';
+import type { Voxel } from '../hooks/useStore';
+
+// 参数化形状类型
+export type ShapeKind = 'sphere' | 'cylinder' | 'cone' | 'torus' | 'pyramid';
+
+// 形状的主轴（圆柱、圆锥、棱锥的高度方向，圆环的对称轴）
+export type ShapeAxis = 'x' | 'y' | 'z';
+
+// 形状参数 - 尺寸单位为格
+export interface ShapeOptions {
+  kind: ShapeKind;
+  // 垂直于主轴的两个方向的尺寸（圆环为外径，只使用 width）
+  width: number;
+  depth: number;
+  // 沿主轴的尺寸（圆环为管径）
+  height: number;
+  hollow: boolean;
+  axis: ShapeAxis;
+}
+
+// 单个方向的最大尺寸（格）
+export const MAX_SHAPE_SIZE = 128;
+
+// 判断局部格点是否在形状内部：u、v 垂直于主轴，w 沿主轴，均为以形状中心为原点的格点中心坐标
+type InsideTest = (u: number, v: number, w: number) => boolean;
+
+// 各形状的内部判定，width/depth/height 为包围盒尺寸
+const createInsideTest = ({ kind, width, depth, height }: ShapeOptions): InsideTest => {
+  const ru = width / 2;
+  const rv = depth / 2;
+  const rw = height / 2;
+  // 从底面（w 最小的一层）到顶面的比例，底层为 0
+  const level = (w: number) => (w + (height - 1) / 2) / height;
+
+  switch (kind) {
+    case 'sphere':
+      return (u, v, w) => (u / ru) ** 2 + (v / rv) ** 2 + (w / rw) ** 2 <= 1;
+    case 'cylinder':
+      return (u, v) => (u / ru) ** 2 + (v / rv) ** 2 <= 1;
+    case 'cone':
+      return (u, v, w) => {
+        const scale = 1 - level(w);
+        return (u / ru) ** 2 + (v / rv) ** 2 <= scale * scale;
+      };
+    case 'pyramid':
+      return (u, v, w) => {
+        const scale = 1 - level(w);
+        return Math.abs(u) <= ru * scale && Math.abs(v) <= rv * scale;
+      };
+    case 'torus': {
+      // 管的中心圆半径为外半径减去管半径
+      const tube = rw;
+      const major = ru - tube;
+      return (u, v, w) => (Math.hypot(u, v) - major) ** 2 + w * w <= tube * tube;
+    }
+  }
+};
+
+// 局部坐标（u, v, w）映射到世界坐标，w 沿主轴
+const toWorld = (axis: ShapeAxis, u: number, v: number, w: number): Vector3 => {
+  switch (axis) {
+    case 'x': return new Vector3(w, u, v);
+    case 'y': return new Vector3(u, w, v);
+    case 'z': return new Vector3(u, v, w);
+  }
+};
+
+// 体素化参数化形状，返回的体素位于以原点为最小角的包围盒内
+export const generateShape = (options: ShapeOptions, color: string): Voxel[] => {
+  const clampSize = (n: number) => Math.max(1, Math.min(MAX_SHAPE_SIZE, Math.round(n)));
+  const width = clampSize(options.width);
+  const height = clampSize(options.height);
+  // 圆环为旋转对称，两个垂直方向使用同一个外径
+  const depth = options.kind === 'torus' ? width : clampSize(options.depth);
+  const normalized = { ...options, width, depth, height };
+  const test = createInsideTest(normalized);
+
+  // 格点索引转换为以中心为原点的格点中心坐标
+  const inside = (i: number, j: number, k: number) => {
+    if (i < 0 || j < 0 || k < 0 || i >= width || j >= depth || k >= height) return false;
+    return test(i - (width - 1) / 2, j - (depth - 1) / 2, k - (height - 1) / 2);
+  };
+
+  const voxels: Voxel[] = [];
+  for (let i = 0; i < width; i++) {
+    for (let j = 0; j < depth; j++) {
+      for (let k = 0; k < height; k++) {
+        if (!inside(i, j, k)) continue;
+        // 空心时只保留至少有一个面邻居在形状外的表层格点
+        if (options.hollow &&
+            inside(i + 1, j, k) && inside(i - 1, j, k) &&
+            inside(i, j + 1, k) && inside(i, j - 1, k) &&
+            inside(i, j, k + 1) && inside(i, j, k - 1)) {
+          continue;
+        }
+        voxels.push({ position: toWorld(options.axis, i, j, k), color });
+      }
+    }
+  }
+  return voxels;
+};
+
+// 三维 Bresenham 直线：返回从 from 到 to（含两端）的连续格点，相邻格点至少共享一个顶点
+export const bresenhamLine = (from: Vector3, to: Vector3): Vector3[] => {
+  const start = [Math.round(from.x), Math.round(from.y), Math.round(from.z)];
+  const end = [Math.round(to.x), Math.round(to.y), Math.round(to.z)];
+  const delta = end.map((e, i) => Math.abs(e - start[i]));
+  const step = end.map((e, i) => Math.sign(e - start[i]));
+
+  // 以变化最大的轴为主轴，另外两个轴按误差累积决定是否前进
+  const major = delta.indexOf(Math.max(...delta));
+  const count = delta[major];
+  const errors = delta.map(d => 2 * d - count);
+  const point = [...start];
+  const cells = [new Vector3(point[0], point[1], point[2])];
+
+  for (let n = 0; n < count; n++) {
+    for (let axis = 0; axis < 3; axis++) {
+      if (axis === major) continue;
+      if (errors[axis] > 0) {
+        point[axis] += step[axis];
+        errors[axis] -= 2 * count;
+      }
+      errors[axis] += 2 * delta[axis];
+    }
+    point[major] += step[major];
+    cells.push(new Vector3(point[0], point[1], point[2]));
+  }
+  return cells;
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { Vector3 } from 'three';
+import type { Voxel } from '../hooks/useStore';
+import { Cell, cellOf, createVoxelIndex } from './voxelIndex';
+import { createModelStats, getComponentCount, statsAddVoxel, statsRemoveVoxel } from './stats';
+
+const voxelAt = (x: number, y: number, z: number): Voxel => ({ position: new Vector3(x, y, z), color: '#ff0000' });
+
+// 从空模型开始逐个编辑体素，与统计同步更新索引
+const createModel = (voxels: Voxel[] = []) => {
+  const index = createVoxelIndex(voxels);
+  const stats = createModelStats(index, voxels);
+  const current = new Set(voxels);
+  return {
+    index,
+    stats,
+    voxels: () => Array.from(current),
+    add: (voxel: Voxel) => {
+      index.set(voxel);
+      statsAddVoxel(stats, index, voxel);
+      current.add(voxel);
+    },
+    remove: (x: number, y: number, z: number) => {
+      const voxel = index.get([x, y, z])!;
+      index.delete([x, y, z]);
+      statsRemoveVoxel(stats, index, voxel);
+      current.delete(voxel);
+    }
+  };
+};
+
+// 遍历整个模型计算面相连的部件数量，作为增量结果的参照
+const floodComponents = (voxels: Voxel[]): number => {
+  const remaining = new Set(voxels.map(voxel => cellOf(voxel.position).join(',')));
+  let components = 0;
+  remaining.forEach(start => {
+    if (!remaining.has(start)) return;
+    components++;
+    const stack = [start];
+    remaining.delete(start);
+    while (stack.length > 0) {
+      const [x, y, z] = stack.pop()!.split(',').map(Number);
+      ([[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]] as Cell[]).forEach(([dx, dy, dz]) => {
+        const key = [x + dx, y + dy, z + dz].join(',');
+        if (!remaining.delete(key)) return;
+        stack.push(key);
+      });
+    }
+  });
+  return components;
+};
+
+describe('部件数量', () => {
+  it('从一条线中间删除体素时分成两个部件，补回后重新连成一个', () => {
+    const model = createModel(Array.from({ length: 9 }, (_, x) => voxelAt(x, 0, 0)));
+    expect(getComponentCount(model.stats)).toBe(1);
+
+    model.remove(4, 0, 0);
+    expect(getComponentCount(model.stats)).toBe(2);
+
+    model.remove(0, 0, 0);
+    expect(getComponentCount(model.stats)).toBe(2);
+
+    model.add(voxelAt(4, 0, 0));
+    expect(getComponentCount(model.stats)).toBe(1);
+  });
+
+  it('删除环上的一个体素不会分裂', () => {
+    const ring = [[0, 0], [1, 0], [2, 0], [2, 1], [2, 2], [1, 2], [0, 2], [0, 1]];
+    const model = createModel(ring.map(([x, z]) => voxelAt(x, 0, z)));
+
+    model.remove(1, 0, 0);
+    expect(getComponentCount(model.stats)).toBe(1);
+
+    model.remove(1, 0, 2);
+    expect(getComponentCount(model.stats)).toBe(2);
+  });
+
+  it('随机添加和删除后与遍历整个模型的结果一致', () => {
+    const model = createModel();
+    // 固定种子的线性同余随机数，保证结果可重复
+    let seed = 7;
+    const random = (n: number) => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed % n;
+    };
+
+    for (let i = 0; i < 600; i++) {
+      const [x, y, z] = [random(6), random(6), random(6)];
+      if (model.index.has([x, y, z])) {
+        model.remove(x, y, z);
+      } else {
+        model.add(voxelAt(x, y, z));
+      }
+      if (i % 50 === 0) {
+        expect(getComponentCount(model.stats)).toBe(floodComponents(model.voxels()));
+      }
+    }
+    expect(getComponentCount(model.stats)).toBe(floodComponents(model.voxels()));
+  });
+});
@@ -0,0 +1,202 @@
+import type { Voxel } from '../hooks/useStore';
+import { Cell, VoxelIndex, cellOf, cellKey } from './voxelIndex';
+
+// 模型统计 - 随每次格点变更增量更新，内部的 Map 原地修改，调用方需用 withNewStats 生成新引用
+export interface ModelStats {
+  count: number;
+  // 外露面数量（相邻两个体素之间的面不计）
+  exposedFaces: number;
+  // 每种颜色的体素数量
+  colorCounts: Map<string, number>;
+  // 每个轴上各坐标的体素数量，用于在删除后也能得到准确的包围盒
+  axisCounts: [Map<number, number>, Map<number, number>, Map<number, number>];
+  // 面相连的部件：每个体素所在部件的编号，以及每个部件包含的格点
+  componentOf: Map<string, number>;
+  componentCells: Map<number, Set<string>>;
+  nextComponentId: number;
+}
+
+// 六个面相邻方向
+const NEIGHBOR_OFFSETS: Cell[] = [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]];
+
+// 格点的六个相邻格点
+const neighborCells = (cell: Cell): Cell[] =>
+  NEIGHBOR_OFFSETS.map(([dx, dy, dz]) => [cell[0] + dx, cell[1] + dy, cell[2] + dz]);
+
+// 格点的相邻体素数量
+const countNeighbors = (index: VoxelIndex, cell: Cell): number =>
+  neighborCells(cell).filter(next => index.has(next)).length;
+
+const increment = (map: Map<string | number, number>, key: string | number, delta: number) => {
+  const next = (map.get(key) ?? 0) + delta;
+  if (next === 0) {
+    map.delete(key);
+  } else {
+    map.set(key, next);
+  }
+};
+
+// 新建一个由给定格点组成的部件（格点须已从原部件中移出）
+const createComponent = (stats: ModelStats, keys: string[]): number => {
+  const id = stats.nextComponentId++;
+  keys.forEach(key => stats.componentOf.set(key, id));
+  stats.componentCells.set(id, new Set(keys));
+  return id;
+};
+
+// 合并两个部件，较小的部件并入较大的部件，返回合并后的编号
+const mergeComponents = (stats: ModelStats, a: number, b: number): number => {
+  const cellsA = stats.componentCells.get(a)!;
+  const cellsB = stats.componentCells.get(b)!;
+  const [target, source, sourceCells] = cellsA.size >= cellsB.size ? [a, b, cellsB] : [b, a, cellsA];
+  const targetCells = stats.componentCells.get(target)!;
+  sourceCells.forEach(key => {
+    stats.componentOf.set(key, target);
+    targetCells.add(key);
+  });
+  stats.componentCells.delete(source);
+  return target;
+};
+
+// 体素加入后自成一个部件，再与相邻体素所在的部件逐一合并
+const componentsAddCell = (stats: ModelStats, cell: Cell) => {
+  let id = createComponent(stats, [cellKey(cell)]);
+  neighborCells(cell).forEach(next => {
+    const other = stats.componentOf.get(cellKey(next));
+    if (other !== undefined && other !== id) {
+      id = mergeComponents(stats, id, other);
+    }
+  });
+};
+
+// 删除体素后可能分裂出的部件：从各相邻体素同时交替向外搜索，相遇的搜索合并，
+// 直到只剩一个未结束的搜索；先结束的搜索即为分离出去的部件，因此只遍历分离出的较小部分，而不是整个部件
+const findSplitPieces = (stats: ModelStats, starts: Cell[]): string[][] => {
+  const owner = new Map<string, number>();
+  const parent = starts.map((_, i) => i);
+  const find = (i: number): number => parent[i] === i ? i : find(parent[i]);
+  const searches = starts.map((cell, i) => {
+    owner.set(cellKey(cell), i);
+    return { cells: [cellKey(cell)], frontier: [cell], done: false };
+  });
+  
+  const pieces: string[][] = [];
+  const running = () => searches.map((_, i) => i).filter(i => find(i) === i && !searches[i].done);
+  for (let roots = running(); roots.length > 1; roots = running()) {
+    for (const i of roots) {
+      // 本轮中已被其他搜索合并或已结束；只剩一个未结束的搜索时，它就是保留原编号的部分
+      if (find(i) !== i || searches[i].done) continue;
+      if (running().length <= 1) break;
+      const search = searches[i];
+      const cell = search.frontier.pop();
+      if (!cell) {
+        search.done = true;
+        pieces.push(search.cells);
+        continue;
+      }
+      neighborCells(cell).forEach(next => {
+        const key = cellKey(next);
+        if (!stats.componentOf.has(key)) return;
+        const visitedBy = owner.get(key);
+        if (visitedBy === undefined) {
+          owner.set(key, i);
+          search.cells.push(key);
+          search.frontier.push(next);
+          return;
+        }
+        const other = find(visitedBy);
+        if (other === i) return;
+        // 两个搜索相遇，说明它们仍然相连
+        parent[other] = i;
+        searches[other].cells.forEach(k => search.cells.push(k));
+        searches[other].frontier.forEach(c => search.frontier.push(c));
+      });
+    }
+  }
+  return pieces;
+};
+
+// 体素删除后将其移出所在部件，若分裂则为分离出去的部分建立新部件
+const componentsRemoveCell = (stats: ModelStats, cell: Cell) => {
+  const key = cellKey(cell);
+  const id = stats.componentOf.get(key);
+  if (id === undefined) return;
+  stats.componentOf.delete(key);
+  const cells = stats.componentCells.get(id)!;
+  cells.delete(key);
+  if (cells.size === 0) {
+    stats.componentCells.delete(id);
+    return;
+  }
+  
+  // 少于两个相邻体素时不会分裂
+  const starts = neighborCells(cell).filter(next => stats.componentOf.has(cellKey(next)));
+  if (starts.length < 2) return;
+  findSplitPieces(stats, starts).forEach(piece => {
+    piece.forEach(k => cells.delete(k));
+    createComponent(stats, piece);
+  });
+};
+
+// 记录一个体素加入索引（须在 index.set 之后调用）
+export const statsAddVoxel = (stats: ModelStats, index: VoxelIndex, voxel: Voxel) => {
+  const cell = cellOf(voxel.position);
+  stats.count++;
+  stats.exposedFaces += 6 - 2 * countNeighbors(index, cell);
+  increment(stats.colorCounts, voxel.color, 1);
+  stats.axisCounts.forEach((counts, axis) => increment(counts, cell[axis], 1));
+  componentsAddCell(stats, cell);
+};
+
+// 记录一个体素从索引中移除（在 index.delete 之前或之后调用均可）
+export const statsRemoveVoxel = (stats: ModelStats, index: VoxelIndex, voxel: Voxel) => {
+  const cell = cellOf(voxel.position);
+  stats.count--;
+  stats.exposedFaces -= 6 - 2 * countNeighbors(index, cell);
+  increment(stats.colorCounts, voxel.color, -1);
+  stats.axisCounts.forEach((counts, axis) => increment(counts, cell[axis], -1));
+  componentsRemoveCell(stats, cell);
+};
+
+// 记录同一格点上的体素被替换（如上色），只有颜色统计变化
+export const statsReplaceVoxel = (stats: ModelStats, before: Voxel, after: Voxel) => {
+  increment(stats.colorCounts, before.color, -1);
+  increment(stats.colorCounts, after.color, 1);
+};
+
+// 从完整的索引创建统计（载入项目时使用）
+export const createModelStats = (index: VoxelIndex, voxels: Voxel[]): ModelStats => {
+  const stats: ModelStats = {
+    count: 0,
+    exposedFaces: 0,
+    colorCounts: new Map(),
+    axisCounts: [new Map(), new Map(), new Map()],
+    componentOf: new Map(),
+    componentCells: new Map(),
+    nextComponentId: 0
+  };
+  voxels.forEach(voxel => {
+    stats.count++;
+    stats.exposedFaces += 6 - countNeighbors(index, cellOf(voxel.position));
+    increment(stats.colorCounts, voxel.color, 1);
+    const cell = cellOf(voxel.position);
+    stats.axisCounts.forEach((counts, axis) => increment(counts, cell[axis], 1));
+    componentsAddCell(stats, cell);
+  });
+  return stats;
+};
+
+// 为原地更新过的统计生成新的引用
+export const withNewStats = (stats: ModelStats): ModelStats => ({ ...stats });
+
+// 包围盒尺寸（格），空模型返回 null
+export const getStatsSize = (stats: ModelStats): [number, number, number] | null => {
+  if (stats.count === 0) return null;
+  return stats.axisCounts.map(counts => {
+    const coords = Array.from(counts.keys());
+    return Math.max(...coords) - Math.min(...coords) + 1;
+  }) as [number, number, number];
+};
+
+// 面相连的部件数量
+export const getComponentCount = (stats: ModelStats): number => stats.componentCells.size;
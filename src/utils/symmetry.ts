@@ -0,0 +1,51 @@
+import { Vector3 } from 'three';
+
+// 对称轴 - 对称面垂直于该轴
+export type SymmetryAxis = 'x' | 'y' | 'z';
+
+// 位于对称面上的格点的处理方式：once 只编辑一次（镜像即自身），skip 忽略对称面上的编辑
+export type SymmetryOnPlane = 'once' | 'skip';
+
+// 对称设置 - plane 为各轴对称面的格点坐标，可以是整数（穿过格点中心）或半整数（位于两格之间）
+export interface SymmetrySettings {
+  axes: Record<SymmetryAxis, boolean>;
+  plane: Vector3;
+  onPlane: SymmetryOnPlane;
+}
+
+export const SYMMETRY_AXES: SymmetryAxis[] = ['x', 'y', 'z'];
+
+// 对称面坐标对齐到半格
+export const snapPlaneCoord = (value: number): number => Math.round(value * 2) / 2;
+
+// 格点关于某个轴向对称面的镜像
+export const mirrorCell = (cell: Vector3, axis: SymmetryAxis, plane: Vector3): Vector3 => {
+  const mirrored = cell.clone();
+  mirrored[axis] = 2 * plane[axis] - cell[axis];
+  return mirrored;
+};
+
+// 格点是否位于任一启用的对称面上
+export const isOnSymmetryPlane = (cell: Vector3, settings: SymmetrySettings): boolean =>
+  SYMMETRY_AXES.some(axis => settings.axes[axis] && cell[axis] === settings.plane[axis]);
+
+// 格点在所有启用的对称面下的镜像（不含自身，已去重），多个轴同时启用时包含组合镜像
+export const getMirrorImages = (cell: Vector3, settings: SymmetrySettings): Vector3[] => {
+  let images = [cell];
+  SYMMETRY_AXES.forEach(axis => {
+    if (!settings.axes[axis]) return;
+    images = [...images, ...images.map(image => mirrorCell(image, axis, settings.plane))];
+  });
+
+  const seen = new Set([cell.toArray().join(',')]);
+  return images.filter(image => {
+    const key = image.toArray().join(',');
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// 是否启用了任一对称轴
+export const hasSymmetry = (settings: SymmetrySettings): boolean =>
+  SYMMETRY_AXES.some(axis => settings.axes[axis]);
@@ -0,0 +1,282 @@
+import { Vector3 } from 'three';
+import type { Voxel } from '../hooks/useStore';
+
+// 整数格点坐标
+export type Cell = [number, number, number];
+
+// 坐标轴编号：0=x, 1=y, 2=z
+export type Axis = 0 | 1 | 2;
+
+// 体素位置（整数格点坐标）转换为格点元组
+export const cellOf = (position: Vector3): Cell => [
+  Math.round(position.x),
+  Math.round(position.y),
+  Math.round(position.z)
+];
+
+// 格点元组转换为体素位置
+export const cellToPosition = (cell: Cell): Vector3 => new Vector3(cell[0], cell[1], cell[2]);
+
+// 格点键
+export const cellKey = (cell: Cell): string => `${cell[0]},${cell[1]},${cell[2]}`;
+
+// 位置对应的格点键
+export const positionKey = (position: Vector3): string => cellKey(cellOf(position));
+
+// 格点键转换回格点元组
+export const parseCellKey = (key: string): Cell => key.split(',').map(Number) as Cell;
+
+// 法线对应的主轴
+export const axisOf = (normal: Vector3): Axis => {
+  const absX = Math.abs(normal.x);
+  const absY = Math.abs(normal.y);
+  const absZ = Math.abs(normal.z);
+  if (absX >= absY && absX >= absZ) return 0;
+  if (absY >= absZ) return 1;
+  return 2;
+};
+
+// 沿法线方向偏移若干格
+export const offsetCell = (cell: Cell, normal: Vector3, steps: number): Cell => [
+  cell[0] + Math.round(normal.x) * steps,
+  cell[1] + Math.round(normal.y) * steps,
+  cell[2] + Math.round(normal.z) * steps
+];
+
+// 渲染分块的边长（格）
+export const CHUNK_SIZE = 16;
+
+// 格点所在分块的键
+export const chunkKeyOf = (cell: Cell): string => cellKey([
+  Math.floor(cell[0] / CHUNK_SIZE),
+  Math.floor(cell[1] / CHUNK_SIZE),
+  Math.floor(cell[2] / CHUNK_SIZE)
+]);
+
+// 分块快照 - 内容不变时保持同一引用，便于渲染层按需重建网格
+export interface ChunkSnapshot {
+  key: string;
+  version: number;
+  voxels: Voxel[];
+}
+
+// 空间索引 - 以整数格点为键，支持 O(1) 查找、邻居查询和平面查询
+export interface VoxelIndex {
+  size: () => number;
+  get: (cell: Cell) => Voxel | undefined;
+  has: (cell: Cell) => boolean;
+  set: (voxel: Voxel) => void;
+  delete: (cell: Cell) => void;
+  neighbor: (cell: Cell, normal: Vector3, steps?: number) => Voxel | undefined;
+  plane: (axis: Axis, coord: number) => Voxel[];
+  chunkKeys: () => string[];
+  chunk: (key: string) => ChunkSnapshot | undefined;
+}
+
+// 平面桶的键
+const planeKey = (axis: Axis, coord: number) => `${axis}:${coord}`;
+
+// 创建空间索引
+export const createVoxelIndex = (voxels: Voxel[] = []): VoxelIndex => {
+  const cells = new Map<string, Voxel>();
+  // 每个轴向平面上的体素，用于平面查询
+  const planes = new Map<string, Map<string, Voxel>>();
+  // 渲染分块及其版本号
+  const chunks = new Map<string, Map<string, Voxel>>();
+  const chunkVersions = new Map<string, number>();
+  const snapshots = new Map<string, ChunkSnapshot>();
+  
+  // 标记分块内容已变化
+  const markChunkDirty = (chunkKey: string) => {
+    chunkVersions.set(chunkKey, (chunkVersions.get(chunkKey) ?? 0) + 1);
+    snapshots.delete(chunkKey);
+  };
+  
+  // 格点变化时，所在分块以及与之相邻的分块（格点位于边界时）都需要重建外露面
+  const touchChunks = (cell: Cell) => {
+    markChunkDirty(chunkKeyOf(cell));
+    for (let axis = 0; axis < 3; axis++) {
+      const local = ((cell[axis] % CHUNK_SIZE) + CHUNK_SIZE) % CHUNK_SIZE;
+      if (local === 0 || local === CHUNK_SIZE - 1) {
+        const neighbor: Cell = [...cell];
+        neighbor[axis] += local === 0 ? -1 : 1;
+        const neighborKey = chunkKeyOf(neighbor);
+        if (chunks.has(neighborKey)) markChunkDirty(neighborKey);
+      }
+    }
+  };
+  
+  const addToPlanes = (key: string, cell: Cell, voxel: Voxel) => {
+    for (let axis = 0; axis < 3; axis++) {
+      const pKey = planeKey(axis as Axis, cell[axis]);
+      let bucket = planes.get(pKey);
+      if (!bucket) {
+        bucket = new Map();
+        planes.set(pKey, bucket);
+      }
+      bucket.set(key, voxel);
+    }
+  };
+  
+  const removeFromPlanes = (key: string, cell: Cell) => {
+    for (let axis = 0; axis < 3; axis++) {
+      const pKey = planeKey(axis as Axis, cell[axis]);
+      const bucket = planes.get(pKey);
+      if (bucket) {
+        bucket.delete(key);
+        if (bucket.size === 0) planes.delete(pKey);
+      }
+    }
+  };
+  
+  const index: VoxelIndex = {
+    size: () => cells.size,
+    get: (cell) => cells.get(cellKey(cell)),
+    has: (cell) => cells.has(cellKey(cell)),
+    set: (voxel) => {
+      const cell = cellOf(voxel.position);
+      const key = cellKey(cell);
+      cells.set(key, voxel);
+      addToPlanes(key, cell, voxel);
+      
+      const chunkKey = chunkKeyOf(cell);
+      let chunk = chunks.get(chunkKey);
+      if (!chunk) {
+        chunk = new Map();
+        chunks.set(chunkKey, chunk);
+      }
+      chunk.set(key, voxel);
+      touchChunks(cell);
+    },
+    delete: (cell) => {
+      const key = cellKey(cell);
+      if (cells.delete(key)) {
+        removeFromPlanes(key, cell);
+        
+        const chunkKey = chunkKeyOf(cell);
+        const chunk = chunks.get(chunkKey);
+        if (chunk) {
+          chunk.delete(key);
+          if (chunk.size === 0) {
+            chunks.delete(chunkKey);
+            chunkVersions.delete(chunkKey);
+            snapshots.delete(chunkKey);
+          }
+        }
+        touchChunks(cell);
+      }
+    },
+    neighbor: (cell, normal, steps = 1) => cells.get(cellKey(offsetCell(cell, normal, steps))),
+    plane: (axis, coord) => Array.from(planes.get(planeKey(axis, coord))?.values() ?? []),
+    chunkKeys: () => Array.from(chunks.keys()),
+    chunk: (chunkKey) => {
+      const chunk = chunks.get(chunkKey);
+      if (!chunk) return undefined;
+      
+      let snapshot = snapshots.get(chunkKey);
+      if (!snapshot) {
+        snapshot = {
+          key: chunkKey,
+          version: chunkVersions.get(chunkKey) ?? 0,
+          voxels: Array.from(chunk.values())
+        };
+        snapshots.set(chunkKey, snapshot);
+      }
+      return snapshot;
+    }
+  };
+  
+  voxels.forEach(voxel => index.set(voxel));
+  return index;
+};
+
+// 查找与给定体素同一平面、且该方向上未被遮挡的所有表面体素
+export const findExposedVoxelsInPlane = (index: VoxelIndex, position: Vector3, normal: Vector3): Voxel[] => {
+  const axis = axisOf(normal);
+  const cell = cellOf(position);
+  
+  return index.plane(axis, cell[axis]).filter(
+    voxel => !index.neighbor(cellOf(voxel.position), normal)
+  );
+};
+
+// 六个面相邻方向
+const FACE_DIRECTIONS: Cell[] = [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]];
+
+// 按面相邻关系把体素划分为互不相连的部件（只有边或角接触的体素属于不同部件）
+export const findConnectedParts = (voxels: Voxel[]): Voxel[][] => {
+  const cells = new Map(voxels.map(voxel => [positionKey(voxel.position), voxel]));
+  const visited = new Set<string>();
+  const parts: Voxel[][] = [];
+  
+  voxels.forEach(start => {
+    const startKey = positionKey(start.position);
+    if (visited.has(startKey)) return;
+    
+    const part: Voxel[] = [];
+    const stack = [start];
+    visited.add(startKey);
+    while (stack.length > 0) {
+      const voxel = stack.pop()!;
+      part.push(voxel);
+      const [x, y, z] = cellOf(voxel.position);
+      FACE_DIRECTIONS.forEach(([dx, dy, dz]) => {
+        const key = cellKey([x + dx, y + dy, z + dz]);
+        const next = cells.get(key);
+        if (next && !visited.has(key)) {
+          visited.add(key);
+          stack.push(next);
+        }
+      });
+    }
+    parts.push(part);
+  });
+  
+  return parts;
+};
+
+// 从起点出发，按给定的相邻方向查找满足条件的连通体素（起点不满足条件时返回空列表）
+export const findConnectedRegion = (
+  index: VoxelIndex,
+  start: Cell,
+  accept: (voxel: Voxel) => boolean,
+  directions: Cell[] = FACE_DIRECTIONS
+): Voxel[] => {
+  const first = index.get(start);
+  if (!first || !accept(first)) return [];
+  
+  const region: Voxel[] = [];
+  const visited = new Set([cellKey(start)]);
+  const stack = [first];
+  while (stack.length > 0) {
+    const voxel = stack.pop()!;
+    region.push(voxel);
+    const [x, y, z] = cellOf(voxel.position);
+    directions.forEach(([dx, dy, dz]) => {
+      const cell: Cell = [x + dx, y + dy, z + dz];
+      const key = cellKey(cell);
+      if (visited.has(key)) return;
+      visited.add(key);
+      const next = index.get(cell);
+      if (next && accept(next)) stack.push(next);
+    });
+  }
+  return region;
+};
+
+// 查找与给定体素同一平面、在平面内面相连且该方向上未被遮挡的表面体素区域，accept 可进一步限制（如同色）
+export const findConnectedExposedRegion = (
+  index: VoxelIndex,
+  position: Vector3,
+  normal: Vector3,
+  accept: (voxel: Voxel) => boolean = () => true
+): Voxel[] => {
+  const axis = axisOf(normal);
+  const inPlane = FACE_DIRECTIONS.filter(direction => direction[axis] === 0);
+  return findConnectedRegion(
+    index,
+    cellOf(position),
+    voxel => !index.neighbor(cellOf(voxel.position), normal) && accept(voxel),
+    inPlane
+  );
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { VoxelizeOptions, voxelizeObject } from './voxelize';
+
+const options = (overrides: Partial<VoxelizeOptions>): VoxelizeOptions => ({
+  sizing: 'fit',
+  resolution: 8,
+  unitMm: 1,
+  voxelSize: 1,
+  fill: 'solid',
+  defaultColor: '#cccccc',
+  useMaterialColor: false,
+  ...overrides
+});
+
+const meshOf = (geometry: THREE.BufferGeometry) => new THREE.Mesh(geometry, new THREE.MeshStandardMaterial());
+
+// 体素包围盒的尺寸
+const extentOf = (voxels: { position: THREE.Vector3 }[]) =>
+  new THREE.Box3().setFromPoints(voxels.map(voxel => voxel.position)).getSize(new THREE.Vector3()).addScalar(1);
+
+describe('voxelizeObject', () => {
+  it('立方体实心填充为 n³ 个体素', async () => {
+    const { voxels, warnings } = await voxelizeObject(meshOf(new THREE.BoxGeometry(1, 1, 1)), options({}));
+
+    expect(voxels).toHaveLength(8 * 8 * 8);
+    expect(extentOf(voxels).toArray()).toEqual([8, 8, 8]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('立方体只保留表面时去掉内部的 (n-2)³ 个体素', async () => {
+    const { voxels } = await voxelizeObject(meshOf(new THREE.BoxGeometry(1, 1, 1)), options({ fill: 'surface' }));
+
+    expect(voxels).toHaveLength(8 * 8 * 8 - 6 * 6 * 6);
+  });
+
+  it('按实际尺寸缩放时每条边的格数为边长除以体素尺寸', async () => {
+    const { voxels } = await voxelizeObject(
+      meshOf(new THREE.BoxGeometry(10, 6, 4)),
+      options({ sizing: 'scale', unitMm: 1, voxelSize: 2 })
+    );
+
+    expect(voxels).toHaveLength(5 * 3 * 2);
+    expect(extentOf(voxels).toArray()).toEqual([5, 3, 2]);
+  });
+
+  it('球体实心填充的结果与球的形状相差不超过一格', async () => {
+    const resolution = 20;
+    const radius = resolution / 2;
+    const { voxels } = await voxelizeObject(meshOf(new THREE.SphereGeometry(1, 64, 32)), options({ resolution }));
+
+    expect(extentOf(voxels).toArray()).toEqual([resolution, resolution, resolution]);
+    // 与表面相交的格子都会被占据，因此结果介于半径缩小和放大一格的球之间
+    const volume = (r: number) => 4 / 3 * Math.PI * r ** 3;
+    expect(voxels.length).toBeGreaterThan(volume(radius - 1));
+    expect(voxels.length).toBeLessThan(volume(radius + Math.sqrt(3) / 2));
+
+    const center = new THREE.Box3().setFromPoints(voxels.map(voxel => voxel.position)).getCenter(new THREE.Vector3());
+    const cells = new Set(voxels.map(voxel => `${voxel.position.x},${voxel.position.y},${voxel.position.z}`));
+    voxels.forEach(voxel => {
+      expect(voxel.position.distanceTo(center)).toBeLessThan(radius + Math.sqrt(3) / 2);
+    });
+    // 格点中心位于球内一格以上的格子都被填充
+    const cell = new THREE.Vector3();
+    for (let x = -radius; x <= radius; x++) {
+      for (let y = -radius; y <= radius; y++) {
+        for (let z = -radius; z <= radius; z++) {
+          cell.set(x, y, z).add(center).round();
+          if (cell.distanceTo(center) < radius - 1) {
+            expect(cells.has(`${cell.x},${cell.y},${cell.z}`)).toBe(true);
+          }
+        }
+      }
+    }
+  });
+
+  it('球体表面为一层外壳，内部格点不包含在内', async () => {
+    const resolution = 20;
+    const radius = resolution / 2;
+    const solid = await voxelizeObject(meshOf(new THREE.SphereGeometry(1, 64, 32)), options({ resolution }));
+    const surface = await voxelizeObject(
+      meshOf(new THREE.SphereGeometry(1, 64, 32)),
+      options({ resolution, fill: 'surface' })
+    );
+
+    const key = (p: THREE.Vector3) => `${p.x},${p.y},${p.z}`;
+    const center = new THREE.Box3().setFromPoints(solid.voxels.map(voxel => voxel.position)).getCenter(new THREE.Vector3());
+    const solidKeys = new Set(solid.voxels.map(voxel => key(voxel.position)));
+
+    expect(surface.voxels.length).toBeLessThan(solid.voxels.length);
+    // 表面体素都在实心结果中，且距球心的距离接近半径
+    surface.voxels.forEach(voxel => {
+      expect(solidKeys.has(key(voxel.position))).toBe(true);
+      expect(voxel.position.distanceTo(center)).toBeGreaterThan(radius - 2);
+    });
+  });
+});
@@ -0,0 +1,428 @@
+import * as THREE from 'three';
+import type { Voxel } from '../hooks/useStore';
+import { FormatError } from './formats/formatError';
+
+// 三角网格体素化：表面体素按三角形与格点的相交测试生成，实心填充通过从外部泛洪确定内部格点
+
+// 填充方式：实心或只保留表面
+export type VoxelizeFill = 'solid' | 'surface';
+
+// 尺寸方式：'fit' 按最长边的格数缩放；'scale' 按源文件单位的实际尺寸换算为当前体素尺寸
+export type VoxelizeSizing = 'fit' | 'scale';
+
+export interface VoxelizeOptions {
+  sizing: VoxelizeSizing;
+  // 'fit' 时最长边的格数
+  resolution: number;
+  // 'scale' 时源文件中 1 个单位对应的毫米数
+  unitMm: number;
+  // 当前体素尺寸（毫米）
+  voxelSize: number;
+  fill: VoxelizeFill;
+  // 没有顶点颜色或贴图时使用的颜色
+  defaultColor: string;
+  // 是否使用材质颜色（STL/OBJ 没有可靠的材质颜色时应关闭）
+  useMaterialColor: boolean;
+}
+
+export interface VoxelizeResult {
+  voxels: Voxel[];
+  warnings: string[];
+}
+
+// 每条边的最大格数
+export const MAX_VOXELIZE_RESOLUTION = 256;
+
+// 单次体素化允许生成的最大体素数
+const MAX_VOXELS = 1000000;
+
+// 每段连续计算的最长时间（毫秒），超过后让出主线程，避免界面卡顿
+const CHUNK_TIME_MS = 16;
+
+// 相交测试时格子沿三角形法线方向的偏移量（格），使恰好落在格点边界上的面只占据内侧的格子
+const TIE_OFFSET = 0.0001;
+
+const yieldToUi = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// 格子状态
+const EMPTY = 0;
+const SURFACE = 1;
+const INTERIOR = 2;
+const EXTERIOR = 3;
+
+// 三角形颜色采样 - 输入三个顶点的索引和重心坐标，返回颜色
+type ColorSampler = (i0: number, i1: number, i2: number, bary: THREE.Vector3, triangle: number) => THREE.Color;
+
+// 一个网格的三角形数据，顶点坐标已变换到格点空间
+interface MeshSource {
+  positions: Float32Array;
+  index: ArrayLike<number> | null;
+  triangleCount: number;
+  sampleColor: ColorSampler;
+}
+
+// 贴图采样器缓存（同一贴图只读取一次像素）
+type TextureSampler = (uv: THREE.Vector2) => THREE.Color;
+
+const createTextureSampler = (texture: THREE.Texture): TextureSampler | null => {
+  const image = texture.image as (CanvasImageSource & { width: number; height: number }) | undefined;
+  if (!image || !image.width || !image.height || typeof document === 'undefined') return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+  context.drawImage(image, 0, 0);
+  const { data, width, height } = context.getImageData(0, 0, image.width, image.height);
+  texture.updateMatrix();
+
+  const uv = new THREE.Vector2();
+  return (source) => {
+    // transformUv 会处理贴图变换、重复方式和 flipY
+    texture.transformUv(uv.copy(source));
+    const x = Math.min(width - 1, Math.max(0, Math.floor(uv.x * width)));
+    const y = Math.min(height - 1, Math.max(0, Math.floor(uv.y * height)));
+    const offset = (y * width + x) * 4;
+    return new THREE.Color().setRGB(data[offset] / 255, data[offset + 1] / 255, data[offset + 2] / 255, THREE.SRGBColorSpace);
+  };
+};
+
+// 为网格创建颜色采样器：优先使用贴图，其次顶点颜色，最后材质颜色或默认颜色
+const createColorSampler = (
+  mesh: THREE.Mesh,
+  options: VoxelizeOptions,
+  textureSamplers: Map<THREE.Texture, TextureSampler | null>
+): ColorSampler => {
+  const geometry = mesh.geometry;
+  const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+  const colorAttribute = geometry.getAttribute('color');
+  const uvAttribute = geometry.getAttribute('uv');
+  const fallback = new THREE.Color(options.defaultColor);
+
+  // 多材质网格：按几何体分组确定每个三角形的材质
+  const materialOf = (triangle: number): THREE.Material | undefined => {
+    if (!Array.isArray(mesh.material)) return mesh.material;
+    const start = triangle * 3;
+    const group = geometry.groups.find(g => start >= g.start && start < g.start + g.count);
+    return group ? materials[group.materialIndex ?? 0] : materials[0];
+  };
+
+  const textureOf = (material: THREE.Material | undefined) => {
+    const texture = (material as THREE.MeshStandardMaterial | undefined)?.map;
+    if (!texture || !uvAttribute) return null;
+    if (!textureSamplers.has(texture)) {
+      textureSamplers.set(texture, createTextureSampler(texture));
+    }
+    return textureSamplers.get(texture) ?? null;
+  };
+
+  const uv = new THREE.Vector2();
+  const color = new THREE.Color();
+  const vertexColor = new THREE.Color();
+
+  return (i0, i1, i2, bary, triangle) => {
+    const material = materialOf(triangle);
+    const materialColor = options.useMaterialColor ? (material as THREE.MeshStandardMaterial | undefined)?.color : undefined;
+    const sampler = textureOf(material);
+
+    if (sampler) {
+      uv.set(
+        uvAttribute.getX(i0) * bary.x + uvAttribute.getX(i1) * bary.y + uvAttribute.getX(i2) * bary.z,
+        uvAttribute.getY(i0) * bary.x + uvAttribute.getY(i1) * bary.y + uvAttribute.getY(i2) * bary.z
+      );
+      color.copy(sampler(uv));
+    } else if (colorAttribute) {
+      color.setRGB(0, 0, 0);
+      [i0, i1, i2].forEach((i, k) => {
+        vertexColor.fromBufferAttribute(colorAttribute, i);
+        color.r += vertexColor.r * bary.getComponent(k);
+        color.g += vertexColor.g * bary.getComponent(k);
+        color.b += vertexColor.b * bary.getComponent(k);
+      });
+    } else {
+      return (materialColor ?? fallback).clone();
+    }
+
+    if (materialColor) color.multiply(materialColor);
+    return color.clone();
+  };
+};
+
+// 三角形与轴对齐立方体的分离轴测试（Akenine-Möller），立方体中心为原点、半边长为 h
+// 只接触边界不算相交
+const triangleIntersectsBox = (v0: number[], v1: number[], v2: number[], h: number): boolean => {
+  const edges = [
+    [v1[0] - v0[0], v1[1] - v0[1], v1[2] - v0[2]],
+    [v2[0] - v1[0], v2[1] - v1[1], v2[2] - v1[2]],
+    [v0[0] - v2[0], v0[1] - v2[1], v0[2] - v2[2]]
+  ];
+
+  // 9 个边与坐标轴叉积的分离轴
+  for (const e of edges) {
+    const axes = [[0, -e[2], e[1]], [e[2], 0, -e[0]], [-e[1], e[0], 0]];
+    for (const a of axes) {
+      const p0 = v0[0] * a[0] + v0[1] * a[1] + v0[2] * a[2];
+      const p1 = v1[0] * a[0] + v1[1] * a[1] + v1[2] * a[2];
+      const p2 = v2[0] * a[0] + v2[1] * a[1] + v2[2] * a[2];
+      const r = h * (Math.abs(a[0]) + Math.abs(a[1]) + Math.abs(a[2]));
+      if (r === 0) continue;
+      if (Math.min(p0, p1, p2) >= r || Math.max(p0, p1, p2) <= -r) return false;
+    }
+  }
+
+  // 3 个坐标轴
+  for (let i = 0; i < 3; i++) {
+    if (Math.min(v0[i], v1[i], v2[i]) >= h || Math.max(v0[i], v1[i], v2[i]) <= -h) return false;
+  }
+
+  // 三角形所在平面
+  const n = [
+    edges[0][1] * edges[1][2] - edges[0][2] * edges[1][1],
+    edges[0][2] * edges[1][0] - edges[0][0] * edges[1][2],
+    edges[0][0] * edges[1][1] - edges[0][1] * edges[1][0]
+  ];
+  const d = n[0] * v0[0] + n[1] * v0[1] + n[2] * v0[2];
+  const r = h * (Math.abs(n[0]) + Math.abs(n[1]) + Math.abs(n[2]));
+  return Math.abs(d) < r;
+};
+
+// 将场景中的所有网格体素化
+export const voxelizeObject = async (
+  object: THREE.Object3D,
+  options: VoxelizeOptions,
+  onProgress?: (fraction: number) => void
+): Promise<VoxelizeResult> => {
+  const warnings: string[] = [];
+  object.updateMatrixWorld(true);
+
+  // 收集网格
+  const meshes: THREE.Mesh[] = [];
+  object.traverse(child => {
+    if ((child as THREE.Mesh).isMesh && (child as THREE.Mesh).geometry.getAttribute('position')) {
+      meshes.push(child as THREE.Mesh);
+    }
+  });
+  if (meshes.length === 0) {
+    throw new FormatError('文件中没有可体素化的网格');
+  }
+
+  // 世界坐标包围盒
+  const bounds = new THREE.Box3();
+  meshes.forEach(mesh => {
+    const box = new THREE.Box3().setFromBufferAttribute(mesh.geometry.getAttribute('position') as THREE.BufferAttribute);
+    bounds.union(box.applyMatrix4(mesh.matrixWorld));
+  });
+  const extent = bounds.getSize(new THREE.Vector3());
+  const longest = Math.max(extent.x, extent.y, extent.z);
+  if (!(longest > 0)) {
+    throw new FormatError('网格尺寸为零');
+  }
+
+  // 世界坐标到格点坐标的缩放
+  const factor = options.sizing === 'fit'
+    ? options.resolution / longest
+    : options.unitMm / options.voxelSize;
+  if (!(factor > 0) || !Number.isFinite(factor)) {
+    throw new FormatError('缩放设置无效');
+  }
+
+  // 网格占据的格点数，四周再各留一格用于泛洪
+  const extents = [extent.x * factor, extent.y * factor, extent.z * factor];
+  const cellCounts = extents.map(n => Math.max(1, Math.ceil(n - 1e-6)));
+  if (Math.max(...cellCounts) > MAX_VOXELIZE_RESOLUTION) {
+    throw new FormatError(`模型太大：最长边将有 ${Math.max(...cellCounts)} 格，上限为 ${MAX_VOXELIZE_RESOLUTION} 格`);
+  }
+  const [W, H, D] = cellCounts.map(n => n + 2);
+  const cellIndex = (x: number, y: number, z: number) => x + W * (y + H * z);
+  const states = new Uint8Array(W * H * D);
+  const colors = new Int32Array(W * H * D).fill(-1);
+
+  // 格点空间：格点中心为整数，第 0 格为留出的边界；包围盒最小角对齐第 1 格的边界（扁平方向则居中）
+  const offsets = extents.map(n => n > 0 ? 0.5 : 1);
+  const toGrid = new THREE.Matrix4()
+    .makeTranslation(offsets[0], offsets[1], offsets[2])
+    .multiply(new THREE.Matrix4().makeScale(factor, factor, factor))
+    .multiply(new THREE.Matrix4().makeTranslation(-bounds.min.x, -bounds.min.y, -bounds.min.z));
+
+  const textureSamplers = new Map<THREE.Texture, TextureSampler | null>();
+  const sources: MeshSource[] = meshes.map(mesh => {
+    const attribute = mesh.geometry.getAttribute('position');
+    const matrix = toGrid.clone().multiply(mesh.matrixWorld);
+    const positions = new Float32Array(attribute.count * 3);
+    const vertex = new THREE.Vector3();
+    for (let i = 0; i < attribute.count; i++) {
+      vertex.fromBufferAttribute(attribute, i).applyMatrix4(matrix).toArray(positions, i * 3);
+    }
+    const index = mesh.geometry.getIndex()?.array ?? null;
+    return {
+      positions,
+      index,
+      triangleCount: Math.floor((index ? index.length : attribute.count) / 3),
+      sampleColor: createColorSampler(mesh, options, textureSamplers)
+    };
+  });
+
+  const totalTriangles = sources.reduce((sum, source) => sum + source.triangleCount, 0);
+  let processed = 0;
+  let chunkStart = performance.now();
+
+  // 第一步：表面体素
+  const triangle = new THREE.Triangle();
+  const closest = new THREE.Vector3();
+  const bary = new THREE.Vector3();
+  const center = new THREE.Vector3();
+  const normal = new THREE.Vector3();
+  const a = [0, 0, 0];
+  const b = [0, 0, 0];
+  const c = [0, 0, 0];
+
+  for (const source of sources) {
+    const { positions, index } = source;
+    for (let t = 0; t < source.triangleCount; t++) {
+      const i0 = index ? index[t * 3] : t * 3;
+      const i1 = index ? index[t * 3 + 1] : t * 3 + 1;
+      const i2 = index ? index[t * 3 + 2] : t * 3 + 2;
+      triangle.a.fromArray(positions, i0 * 3);
+      triangle.b.fromArray(positions, i1 * 3);
+      triangle.c.fromArray(positions, i2 * 3);
+      triangle.getNormal(normal);
+
+      // 与三角形包围盒相交的格子范围
+      const min = [0, 1, 2].map(k => Math.max(0, Math.ceil(Math.min(
+        triangle.a.getComponent(k), triangle.b.getComponent(k), triangle.c.getComponent(k)) - 0.5)));
+      const max = [0, 1, 2].map(k => Math.min(cellCounts[k] + 1, Math.floor(Math.max(
+        triangle.a.getComponent(k), triangle.b.getComponent(k), triangle.c.getComponent(k)) + 0.5)));
+
+      // 退化三角形没有法线，直接跳过
+      for (let z = min[2]; z <= max[2] && normal.lengthSq() > 0; z++) {
+        for (let y = min[1]; y <= max[1]; y++) {
+          for (let x = min[0]; x <= max[0]; x++) {
+            const cell = cellIndex(x, y, z);
+            if (states[cell] === SURFACE) continue;
+            center.set(x, y, z).addScaledVector(normal, TIE_OFFSET);
+            triangle.a.toArray(a);
+            triangle.b.toArray(b);
+            triangle.c.toArray(c);
+            for (let k = 0; k < 3; k++) {
+              const offset = center.getComponent(k);
+              a[k] -= offset;
+              b[k] -= offset;
+              c[k] -= offset;
+            }
+            if (!triangleIntersectsBox(a, b, c, 0.5)) continue;
+
+            // 在三角形上距格点中心最近的位置采样颜色
+            triangle.closestPointToPoint(center.set(x, y, z), closest);
+            if (!triangle.getBarycoord(closest, bary)) bary.set(1, 0, 0);
+            states[cell] = SURFACE;
+            colors[cell] = source.sampleColor(i0, i1, i2, bary, t).getHex();
+          }
+        }
+      }
+
+      processed++;
+      if (performance.now() - chunkStart > CHUNK_TIME_MS) {
+        onProgress?.(0.8 * processed / totalTriangles);
+        await yieldToUi();
+        chunkStart = performance.now();
+      }
+    }
+  }
+
+  // 第二步：从边界泛洪标记外部格点，剩下的空格点即为内部
+  if (options.fill === 'solid') {
+    const stack: number[] = [cellIndex(0, 0, 0)];
+    states[stack[0]] = EXTERIOR;
+    let steps = 0;
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const x = cell % W;
+      const y = Math.floor(cell / W) % H;
+      const z = Math.floor(cell / (W * H));
+      const neighbors = [
+        x > 0 ? cell - 1 : -1, x < W - 1 ? cell + 1 : -1,
+        y > 0 ? cell - W : -1, y < H - 1 ? cell + W : -1,
+        z > 0 ? cell - W * H : -1, z < D - 1 ? cell + W * H : -1
+      ];
+      neighbors.forEach(next => {
+        if (next >= 0 && states[next] === EMPTY) {
+          states[next] = EXTERIOR;
+          stack.push(next);
+        }
+      });
+      if (++steps % 65536 === 0 && performance.now() - chunkStart > CHUNK_TIME_MS) {
+        onProgress?.(0.9);
+        await yieldToUi();
+        chunkStart = performance.now();
+      }
+    }
+
+    // 内部格点使用最近的表面颜色（从表面开始逐层向内扩散）
+    let frontier: number[] = [];
+    let interiorCount = 0;
+    for (let cell = 0; cell < states.length; cell++) {
+      if (states[cell] === EMPTY) {
+        states[cell] = INTERIOR;
+        interiorCount++;
+      } else if (states[cell] === SURFACE) {
+        frontier.push(cell);
+      }
+    }
+    if (interiorCount === 0) {
+      warnings.push('未找到封闭的内部空间，结果只包含表面（网格可能不封闭或过薄）');
+    }
+    while (frontier.length > 0) {
+      const next: number[] = [];
+      frontier.forEach(cell => {
+        [cell - 1, cell + 1, cell - W, cell + W, cell - W * H, cell + W * H].forEach(neighbor => {
+          if (states[neighbor] === INTERIOR && colors[neighbor] < 0) {
+            colors[neighbor] = colors[cell];
+            next.push(neighbor);
+          }
+        });
+      });
+      frontier = next;
+      if (performance.now() - chunkStart > CHUNK_TIME_MS) {
+        await yieldToUi();
+        chunkStart = performance.now();
+      }
+    }
+  }
+
+  // 第三步：生成体素，水平方向居中、底部位于 y=0
+  let count = 0;
+  for (let cell = 0; cell < states.length; cell++) {
+    if (states[cell] === SURFACE || states[cell] === INTERIOR) count++;
+  }
+  if (count === 0) {
+    throw new FormatError('体素化结果为空，请提高分辨率');
+  }
+  if (count > MAX_VOXELS) {
+    throw new FormatError(`体素数量过多（${count}），请降低分辨率`);
+  }
+
+  const offsetX = -Math.floor(W / 2);
+  const offsetZ = -Math.floor(D / 2);
+  let minY = H;
+  for (let cell = 0; cell < states.length; cell++) {
+    if (states[cell] === SURFACE || states[cell] === INTERIOR) {
+      minY = Math.min(minY, Math.floor(cell / W) % H);
+    }
+  }
+
+  const voxels: Voxel[] = [];
+  for (let cell = 0; cell < states.length; cell++) {
+    if (states[cell] !== SURFACE && states[cell] !== INTERIOR) continue;
+    const x = cell % W;
+    const y = Math.floor(cell / W) % H;
+    const z = Math.floor(cell / (W * H));
+    voxels.push({
+      position: new THREE.Vector3(x + offsetX, y - minY, z + offsetZ),
+      color: colors[cell] >= 0 ? '#' + colors[cell].toString(16).padStart(6, '0') : options.defaultColor
+    });
+  }
+
+  onProgress?.(1);
+  return { voxels, warnings };
+};